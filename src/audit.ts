@@ -0,0 +1,150 @@
+import { appendFile, readFile } from "node:fs/promises";
+import { records } from "./entities.js";
+
+// "partial" marks bulk calls where some items failed; a bulk call where all failed is an "error"
+export type AuditOutcome = "success" | "partial" | "error" | "dry_run";
+
+export interface AuditEntry {
+  timestamp: string; // ISO 8601, when the call started
+  session_id?: string;
+  tool: string;
+  portal_id?: string;
+  arguments: Record<string, unknown>;
+  outcome: AuditOutcome;
+  duration_ms: number;
+  zoho_ids: string[]; // IDs found in Zoho's response, e.g. of created records
+  error?: string;
+}
+
+export interface AuditQuery {
+  sessionId?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  since?: string; // ISO 8601 date or timestamp
+  limit?: number;
+}
+
+// Storage backend for audit entries; implement this to ship entries to e.g. a SIEM
+export interface AuditSink {
+  append(entry: AuditEntry): Promise<void>;
+  // Matching entries, newest first
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  return (
+    (!query.sessionId || entry.session_id === query.sessionId) &&
+    (!query.tool || entry.tool === query.tool) &&
+    (!query.outcome || entry.outcome === query.outcome) &&
+    (!query.since || entry.timestamp >= query.since)
+  );
+}
+
+function newestFirst(entries: AuditEntry[], query: AuditQuery): AuditEntry[] {
+  return entries
+    .filter((entry) => matches(entry, query))
+    .reverse()
+    .slice(0, query.limit ?? 50);
+}
+
+export class MemoryAuditSink implements AuditSink {
+  private entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry) {
+    this.entries.push(entry);
+  }
+
+  async query(query: AuditQuery) {
+    return newestFirst(this.entries, query);
+  }
+}
+
+// One JSON object per line, only ever appended to
+export class JsonlAuditSink implements AuditSink {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async append(entry: AuditEntry) {
+    // Serialize appends so concurrent calls never interleave within a line
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => appendFile(this.filePath, JSON.stringify(entry) + "\n", { mode: 0o600 }));
+    await this.writing;
+  }
+
+  async query(query: AuditQuery) {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A torn last line from a crash mid-write; skip it
+      }
+    }
+    return newestFirst(entries, query);
+  }
+}
+
+// Sink that records nothing, for ZOHO_AUDIT_LOG=off
+class DisabledAuditSink implements AuditSink {
+  async append() {}
+
+  async query() {
+    return [];
+  }
+}
+
+export class AuditLog {
+  constructor(private sink: AuditSink) {}
+
+  // Swap in a custom backend before the first tool call is made
+  setSink(sink: AuditSink) {
+    this.sink = sink;
+  }
+
+  // Auditing never fails the tool call it describes
+  async record(entry: AuditEntry) {
+    await this.sink.append(entry).catch((error) => {
+      console.error(`Failed to write audit entry for ${entry.tool}: ${error}`);
+    });
+  }
+
+  query(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.sink.query(query);
+  }
+}
+
+// IDs of the records a mutation touched, from Zoho's response or a bulk tool's per-item report
+export function responseIds(data: any): string[] {
+  const items = Array.isArray(data?.results)
+    ? data.results.filter((result: any) => result.status === "succeeded")
+    : records(data);
+  return items
+    .map((item: any) => item?.id ?? item?.task_id)
+    .filter((id: unknown) => id !== undefined && id !== null && id !== "")
+    .map(String);
+}
+
+function createAuditSink(): AuditSink {
+  switch (process.env.ZOHO_AUDIT_LOG) {
+    case "off":
+      return new DisabledAuditSink();
+    case "memory":
+      return new MemoryAuditSink();
+    default:
+      return new JsonlAuditSink(process.env.ZOHO_AUDIT_LOG_PATH || "zoho-audit.jsonl");
+  }
+}
+
+// Shared by every ZohoProjectsServer instance in the process
+export const auditLog = new AuditLog(createAuditSink());
@@ -0,0 +1,361 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { pick } from "./formatting.js";
+
+// Stable shapes returned as structuredContent, independent of Zoho's payload versions
+
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  status?: string;
+  owner?: string;
+  start_date?: string;
+  end_date?: string;
+  percent_complete?: number;
+}
+
+export interface Task {
+  id: string;
+  name: string;
+  description?: string;
+  status?: string;
+  priority?: string;
+  owners?: string[];
+  start_date?: string;
+  end_date?: string;
+  percent_complete?: number;
+  tasklist_id?: string;
+  milestone_id?: string;
+}
+
+export interface Issue {
+  id: string;
+  title: string;
+  description?: string;
+  status?: string;
+  severity?: string;
+  assignee?: string;
+  reporter?: string;
+  due_date?: string;
+}
+
+export interface Phase {
+  id: string;
+  name: string;
+  status?: string;
+  owner?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface User {
+  id: string;
+  name?: string;
+  email?: string;
+  role?: string;
+}
+
+export type Entity = "project" | "task" | "issue" | "phase" | "user";
+
+const str = { type: "string" };
+const num = { type: "number" };
+
+const ENTITY_SCHEMAS: Record<Entity, Record<string, unknown>> = {
+  project: {
+    type: "object",
+    properties: {
+      id: str,
+      name: str,
+      description: str,
+      status: str,
+      owner: str,
+      start_date: str,
+      end_date: str,
+      percent_complete: num,
+    },
+    required: ["id", "name"],
+  },
+  task: {
+    type: "object",
+    properties: {
+      id: str,
+      name: str,
+      description: str,
+      status: str,
+      priority: str,
+      owners: { type: "array", items: str },
+      start_date: str,
+      end_date: str,
+      percent_complete: num,
+      tasklist_id: str,
+      milestone_id: str,
+    },
+    required: ["id", "name"],
+  },
+  issue: {
+    type: "object",
+    properties: {
+      id: str,
+      title: str,
+      description: str,
+      status: str,
+      severity: str,
+      assignee: str,
+      reporter: str,
+      due_date: str,
+    },
+    required: ["id", "title"],
+  },
+  phase: {
+    type: "object",
+    properties: {
+      id: str,
+      name: str,
+      status: str,
+      owner: str,
+      start_date: str,
+      end_date: str,
+    },
+    required: ["id", "name"],
+  },
+  user: {
+    type: "object",
+    properties: {
+      id: str,
+      name: str,
+      email: str,
+      role: str,
+    },
+    required: ["id"],
+  },
+};
+
+const PLURALS: Record<Entity, string> = {
+  project: "projects",
+  task: "tasks",
+  issue: "issues",
+  phase: "phases",
+  user: "users",
+};
+
+function first(record: any, ...paths: string[]): any {
+  return paths.map((path) => pick(record, path)).find((value) => value !== undefined && value !== null);
+}
+
+function text(record: any, ...paths: string[]): string | undefined {
+  const value = first(record, ...paths);
+  return value === undefined || typeof value === "object" ? undefined : String(value);
+}
+
+function number(record: any, ...paths: string[]): number | undefined {
+  const value = Number(first(record, ...paths));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// Drops absent optional fields so the objects validate against the schemas above
+function defined<T extends object>(entity: T): T {
+  return Object.fromEntries(
+    Object.entries(entity).filter(([, value]) => value !== undefined)
+  ) as T;
+}
+
+const NORMALIZERS: Record<Entity, (raw: any) => object> = {
+  project: (raw): Project =>
+    defined({
+      id: text(raw, "id", "id_string") || "",
+      name: text(raw, "name") || "",
+      description: text(raw, "description"),
+      status: text(raw, "status.name", "status"),
+      owner: text(raw, "owner.name", "owner_name"),
+      start_date: text(raw, "start_date"),
+      end_date: text(raw, "end_date"),
+      percent_complete: number(raw, "percent_complete", "completion_percentage"),
+    }),
+  task: (raw): Task => {
+    const owners = first(raw, "owners_and_work.owners", "details.owners", "owners");
+    return defined({
+      id: text(raw, "id", "id_string") || "",
+      name: text(raw, "name") || "",
+      description: text(raw, "description"),
+      status: text(raw, "status.name", "status"),
+      priority: text(raw, "priority"),
+      owners: Array.isArray(owners)
+        ? owners.map((owner) => String(owner?.name ?? owner))
+        : undefined,
+      start_date: text(raw, "start_date"),
+      end_date: text(raw, "end_date"),
+      percent_complete: number(raw, "percent_complete", "completion_percentage"),
+      tasklist_id: text(raw, "tasklist.id", "tasklist_id"),
+      milestone_id: text(raw, "milestone.id", "milestone_id", "tasklist.milestone.id"),
+    });
+  },
+  issue: (raw): Issue =>
+    defined({
+      id: text(raw, "id", "id_string") || "",
+      title: text(raw, "title", "name") || "",
+      description: text(raw, "description"),
+      status: text(raw, "status.name", "status"),
+      severity: text(raw, "severity.value", "severity.name", "severity"),
+      assignee: text(raw, "assignee.name", "assignee_name"),
+      reporter: text(raw, "reporter.name", "reported_person"),
+      due_date: text(raw, "due_date"),
+    }),
+  phase: (raw): Phase =>
+    defined({
+      id: text(raw, "id", "id_string") || "",
+      name: text(raw, "name") || "",
+      status: text(raw, "status.name", "status"),
+      owner: text(raw, "owner.name", "owner_name"),
+      start_date: text(raw, "start_date"),
+      end_date: text(raw, "end_date"),
+    }),
+  user: (raw): User =>
+    defined({
+      id: text(raw, "zpuid", "id") || "",
+      name: text(raw, "name", "full_name", "display_name"),
+      email: text(raw, "email"),
+      role: text(raw, "role.name", "role", "profile.name"),
+    }),
+};
+
+export function normalize(entity: "project", raw: any): Project;
+export function normalize(entity: "task", raw: any): Task;
+export function normalize(entity: "issue", raw: any): Issue;
+export function normalize(entity: "phase", raw: any): Phase;
+export function normalize(entity: "user", raw: any): User;
+export function normalize(entity: Entity, raw: any): object {
+  return NORMALIZERS[entity](raw);
+}
+
+// Closed-type statuses are flagged by Zoho; older payloads only carry the status name
+export function isClosed(record: any): boolean {
+  const status = record?.status;
+  if (status?.is_closed_type !== undefined) return Boolean(status.is_closed_type);
+  const name = typeof status === "string" ? status : status?.name;
+  return /^(closed|completed|done|resolved|cancelled)$/i.test(String(name || ""));
+}
+
+// Which entity each tool returns, and whether it returns a list of them
+const TOOL_OUTPUTS: Record<string, { entity: Entity; list: boolean }> = {
+  list_projects: { entity: "project", list: true },
+  get_project: { entity: "project", list: false },
+  create_project: { entity: "project", list: false },
+  update_project: { entity: "project", list: false },
+  list_tasks: { entity: "task", list: true },
+  get_task: { entity: "task", list: false },
+  create_task: { entity: "task", list: false },
+  update_task: { entity: "task", list: false },
+  list_subtasks: { entity: "task", list: true },
+  create_subtask: { entity: "task", list: false },
+  list_issues: { entity: "issue", list: true },
+  get_issue: { entity: "issue", list: false },
+  create_issue: { entity: "issue", list: false },
+  update_issue: { entity: "issue", list: false },
+  change_issue_status: { entity: "issue", list: false },
+  list_phases: { entity: "phase", list: true },
+  get_phase: { entity: "phase", list: false },
+  create_phase: { entity: "phase", list: false },
+  update_phase: { entity: "phase", list: false },
+  complete_phase: { entity: "phase", list: false },
+  list_users: { entity: "user", list: true },
+};
+
+const WRAPPER_KEYS = [
+  "projects",
+  "tasks",
+  "subtasks",
+  "issues",
+  "bugs",
+  "milestones",
+  "phases",
+  "users",
+  "project",
+  "task",
+  "issue",
+  "milestone",
+  "phase",
+];
+
+// Zoho wraps records in a resource-named key, often an array even for a single record.
+// An empty payload, e.g. from a 204, holds no records
+export function records(data: any): any[] {
+  if (Array.isArray(data)) return data;
+  if (!data || typeof data !== "object" || Object.keys(data).length === 0) return [];
+  const wrapper = WRAPPER_KEYS.find((key) => data[key] && typeof data[key] === "object");
+  if (!wrapper) return [data];
+  return Array.isArray(data[wrapper]) ? data[wrapper] : [data[wrapper]];
+}
+
+// Records of a list payload; unlike records(), an object without a known list key is not
+// taken for a single record
+function listRecords(data: any): any[] {
+  if (Array.isArray(data)) return data;
+  const wrapper = WRAPPER_KEYS.find((key) => Array.isArray(data?.[key]));
+  return wrapper ? data[wrapper] : [];
+}
+
+export function outputSchemaFor(toolName: string): Tool["outputSchema"] | undefined {
+  if (toolName === "get_phase_work") {
+    return {
+      type: "object",
+      properties: {
+        phase: ENTITY_SCHEMAS.phase,
+        tasks: { type: "array", items: ENTITY_SCHEMAS.task },
+        open_issues: { type: "array", items: ENTITY_SCHEMAS.issue },
+        summary: { type: "object" },
+      },
+      required: ["tasks", "open_issues"],
+    };
+  }
+
+  const output = TOOL_OUTPUTS[toolName];
+  if (!output) return undefined;
+
+  const schema = ENTITY_SCHEMAS[output.entity];
+  return output.list
+    ? {
+        type: "object",
+        properties: {
+          [PLURALS[output.entity]]: { type: "array", items: schema },
+          page_info: { type: "object" },
+          pagination: { type: "object" },
+        },
+        required: [PLURALS[output.entity]],
+      }
+    : {
+        // The record is left out when Zoho returns none, e.g. an empty 204 response
+        type: "object",
+        properties: { [output.entity]: schema },
+      };
+}
+
+export function structuredContentFor(
+  toolName: string,
+  data: any
+): Record<string, unknown> | undefined {
+  if (data === undefined) return undefined;
+
+  if (toolName === "get_phase_work") {
+    const phase = records(data.phase)[0];
+    return defined({
+      phase: phase && NORMALIZERS.phase(phase),
+      tasks: (data.tasks || []).map(NORMALIZERS.task),
+      open_issues: (data.open_issues || []).map(NORMALIZERS.issue),
+      summary: data.summary,
+    });
+  }
+
+  const output = TOOL_OUTPUTS[toolName];
+  if (!output) return undefined;
+
+  const normalize = NORMALIZERS[output.entity];
+  if (!output.list) {
+    const record = records(data)[0];
+    return record ? { [output.entity]: normalize(record) } : {};
+  }
+  return defined({
+    [PLURALS[output.entity]]: listRecords(data).map(normalize),
+    page_info: data?.page_info,
+    pagination: data?.pagination,
+  });
+}
@@ -0,0 +1,133 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+export type ZohoErrorKind =
+  | "auth"
+  | "permission"
+  | "not_found"
+  | "validation"
+  | "quota"
+  | "server"
+  | "unknown";
+
+// A Zoho API failure, classified so the model can tell what to fix before retrying
+export class ZohoApiError extends McpError {
+  constructor(
+    readonly kind: ZohoErrorKind,
+    readonly status: number,
+    message: string,
+    readonly zohoCode?: string,
+    readonly fields: string[] = []
+  ) {
+    super(MCP_ERROR_CODES[kind], message, {
+      kind,
+      status,
+      ...(zohoCode && { zoho_code: zohoCode }),
+      ...(fields.length > 0 && { fields }),
+    });
+    this.name = "ZohoApiError";
+  }
+}
+
+const MCP_ERROR_CODES: Record<ZohoErrorKind, number> = {
+  auth: ErrorCode.InvalidRequest,
+  permission: ErrorCode.InvalidRequest,
+  not_found: ErrorCode.InvalidParams,
+  validation: ErrorCode.InvalidParams,
+  quota: ErrorCode.InvalidRequest,
+  server: ErrorCode.InternalError,
+  unknown: ErrorCode.InternalError,
+};
+
+const HINTS: Record<ZohoErrorKind, string> = {
+  auth:
+    "The Zoho access token is invalid or expired and could not be refreshed. " +
+    "Re-authorize via /oauth/start or `npm run oauth`.",
+  permission:
+    "The Zoho user lacks permission for this action. Check their role in the portal/project " +
+    "and that the OAuth token has the required scopes.",
+  not_found:
+    "Check the IDs in the call; list the parent collection (e.g. list_projects, list_tasks) " +
+    "to find valid IDs.",
+  validation: "Fix the listed fields and call the tool again.",
+  quota: "The Zoho API rate limit was reached. Wait a minute before retrying.",
+  server: "Zoho had an internal problem. Try again later.",
+  unknown: "",
+};
+
+const LABELS: Record<ZohoErrorKind, string> = {
+  auth: "authentication failed",
+  permission: "permission denied",
+  not_found: "not found",
+  validation: "invalid request",
+  quota: "rate limit exceeded",
+  server: "server error",
+  unknown: "error",
+};
+
+// Zoho's own throttling error codes; messages are not checked, since validation errors such as
+// "exceeds the character limit" mention limits too
+const THROTTLE_CODES = /^(TOO_MANY_REQUESTS|RATE_LIMIT_EXCEEDED|API_LIMIT_EXCEEDED|THROTTLED)$/i;
+
+function classify(status: number, code: string, text: string, fields: string[]): ZohoErrorKind {
+  if (status === 401) return "auth";
+  if (status === 403) return /invalid.?oauth|token/i.test(text) ? "auth" : "permission";
+  if (status === 404) return "not_found";
+  if (status === 429 || THROTTLE_CODES.test(code)) return "quota";
+  if (status >= 500) return "server";
+  // A 400 naming the fields at fault is always something the caller can fix
+  if (status === 400 && fields.length > 0) return "validation";
+  // Zoho sometimes reports these conditions with a plain 400
+  if (/not.?found|does not exist|no such/i.test(text)) return "not_found";
+  if (/permission|not.?authori[sz]ed|access.?denied/i.test(text)) return "permission";
+  if (status === 400 || status === 422) return "validation";
+  return "unknown";
+}
+
+// Handles both the v3 `{ error: { title, details: [...] } }` shape and flat `{ code, message }` bodies
+export function parseZohoError(status: number, bodyText: string): ZohoApiError {
+  let body: any;
+  try {
+    body = JSON.parse(bodyText);
+  } catch {
+    body = undefined;
+  }
+
+  const error = body?.error && typeof body.error === "object" ? body.error : body || {};
+  const zohoCode = [error.code, error.error_code, error.title, error.error_type].find(
+    (value) => value !== undefined && value !== null && value !== ""
+  );
+  const details: any[] = Array.isArray(error.details) ? error.details : [];
+
+  const fields = [
+    ...details.map((detail) => detail?.field_name || detail?.field || detail?.param_name),
+    error.field_name,
+    error.field,
+    error.param_name,
+  ].filter((field): field is string => typeof field === "string" && field !== "");
+
+  const detailMessages = details
+    .map((detail) => detail?.message)
+    .filter((message): message is string => typeof message === "string");
+  const description =
+    [error.message, typeof body?.error === "string" ? body.error : undefined, ...detailMessages]
+      .filter((message) => typeof message === "string" && message !== "")
+      .join("; ") ||
+    (body === undefined ? bodyText.slice(0, 500) : "") ||
+    String(zohoCode || "");
+
+  const kind = classify(status, String(zohoCode || ""), `${zohoCode || ""} ${description}`, fields);
+  const parts = [
+    `Zoho API ${LABELS[kind]} (${status}${zohoCode ? ` ${zohoCode}` : ""})`,
+    description ? `: ${description}.` : ".",
+    fields.length > 0 ? ` Fields: ${[...new Set(fields)].join(", ")}.` : "",
+    HINTS[kind] ? ` ${HINTS[kind]}` : "",
+  ];
+
+  return new ZohoApiError(
+    kind,
+    status,
+    parts.join(""),
+    zohoCode !== undefined ? String(zohoCode) : undefined,
+    [...new Set(fields)]
+  );
+}
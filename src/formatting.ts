@@ -0,0 +1,240 @@
+export type ResponseFormat = "full" | "compact" | "markdown_table";
+
+export type EntityType =
+  | "project"
+  | "task"
+  | "tasklist"
+  | "issue"
+  | "phase"
+  | "user"
+  | "comment"
+  | "timelog";
+
+export interface FormatOptions {
+  format?: ResponseFormat;
+  fields?: string[];
+}
+
+// Compact field sets: output key -> candidate paths, the first one present wins
+const COMPACT_FIELDS: Record<EntityType, Record<string, string[]>> = {
+  project: {
+    id: ["id"],
+    name: ["name"],
+    status: ["status.name", "status"],
+    owner: ["owner.name", "owner_name"],
+    start_date: ["start_date"],
+    end_date: ["end_date"],
+    percent_complete: ["percent_complete", "completion_percentage"],
+  },
+  task: {
+    id: ["id"],
+    name: ["name"],
+    status: ["status.name", "status"],
+    priority: ["priority"],
+    owners: ["owners_and_work.owners", "details.owners", "owners"],
+    start_date: ["start_date"],
+    end_date: ["end_date"],
+    percent_complete: ["percent_complete", "completion_percentage"],
+    tasklist: ["tasklist.name"],
+  },
+  tasklist: {
+    id: ["id"],
+    name: ["name"],
+    milestone: ["milestone.name"],
+    status: ["status"],
+  },
+  issue: {
+    id: ["id"],
+    title: ["title", "name"],
+    status: ["status.name", "status"],
+    severity: ["severity.value", "severity.name", "severity"],
+    assignee: ["assignee.name", "assignee_name"],
+    reporter: ["reporter.name", "reported_person"],
+    due_date: ["due_date"],
+  },
+  phase: {
+    id: ["id"],
+    name: ["name"],
+    status: ["status.name", "status"],
+    owner: ["owner.name", "owner_name"],
+    start_date: ["start_date"],
+    end_date: ["end_date"],
+  },
+  user: {
+    id: ["zpuid", "id"],
+    name: ["name", "full_name", "display_name"],
+    email: ["email"],
+    role: ["role.name", "role", "profile.name"],
+  },
+  comment: {
+    id: ["id"],
+    comment: ["comment", "content"],
+    author: ["added_by.name", "created_by.name", "author.name"],
+    created_time: ["created_time", "added_time"],
+  },
+  timelog: {
+    id: ["id"],
+    date: ["date", "log_date"],
+    hours: ["hours", "log_hour"],
+    user: ["owner.name", "owner_name", "added_by.name"],
+    bill_status: ["bill_status", "billing_type"],
+    notes: ["notes"],
+  },
+};
+
+// Zoho's wrapper keys (and our own composite ones) mapped to the entity they hold
+const ENTITY_KEYS: Record<string, EntityType> = {
+  projects: "project",
+  project: "project",
+  tasks: "task",
+  task: "task",
+  subtasks: "task",
+  tasklists: "tasklist",
+  issues: "issue",
+  issue: "issue",
+  bugs: "issue",
+  open_issues: "issue",
+  milestones: "phase",
+  milestone: "phase",
+  phases: "phase",
+  phase: "phase",
+  users: "user",
+  comments: "comment",
+  timelogs: "timelog",
+  time_logs: "timelog",
+};
+
+export function pick(record: any, path: string): any {
+  return path.split(".").reduce((value, key) => (value == null ? undefined : value[key]), record);
+}
+
+function project(record: any, entity: EntityType | undefined, options: FormatOptions): any {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    return record;
+  }
+  if (options.fields && options.fields.length > 0) {
+    return Object.fromEntries(options.fields.map((field) => [field, pick(record, field)]));
+  }
+  if (options.format === "full") {
+    return record;
+  }
+  if (!entity) {
+    // Unknown shapes keep their scalar fields only
+    return Object.fromEntries(
+      Object.entries(record).filter(([, value]) => value === null || typeof value !== "object")
+    );
+  }
+
+  const compact: Record<string, any> = {};
+  for (const [key, paths] of Object.entries(COMPACT_FIELDS[entity])) {
+    const value = paths.map((path) => pick(record, path)).find((found) => found !== undefined);
+    if (value !== undefined && value !== "") {
+      compact[key] = Array.isArray(value) ? value.map((item) => item?.name ?? item) : value;
+    }
+  }
+  return compact;
+}
+
+// Projects every entity in the payload, leaving paging info, totals and summaries untouched
+function shape(data: any, entity: EntityType | undefined, options: FormatOptions): any {
+  if (Array.isArray(data)) {
+    return data.map((record) => project(record, entity, options));
+  }
+  if (!data || typeof data !== "object") {
+    return data;
+  }
+
+  const keyed = Object.keys(data).filter((key) => ENTITY_KEYS[key]);
+  if (keyed.length === 0) {
+    // A list under an unrecognized key still carries paging info; keep everything but the records
+    const listKey = Object.keys(data).find((key) => Array.isArray(data[key]));
+    if (listKey && (data.pagination || data.page_info)) {
+      return {
+        ...data,
+        [listKey]: data[listKey].map((record: any) => project(record, entity, options)),
+      };
+    }
+    return project(data, entity, options);
+  }
+
+  const shaped: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const keyEntity = ENTITY_KEYS[key];
+    shaped[key] = keyEntity
+      ? Array.isArray(value)
+        ? value.map((record) => project(record, keyEntity, options))
+        : project(value, keyEntity, options)
+      : value;
+  }
+  return shaped;
+}
+
+function cell(value: any): string {
+  const text =
+    value === undefined || value === null
+      ? ""
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function table(records: any[]): string {
+  if (records.length === 0) {
+    return "_No records._";
+  }
+  const columns = [...new Set(records.flatMap((record) => Object.keys(record || {})))];
+  return [
+    `| ${columns.join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...records.map(
+      (record) => `| ${columns.map((column) => cell(record?.[column])).join(" | ")} |`
+    ),
+  ].join("\n");
+}
+
+function markdown(shaped: any): string {
+  if (Array.isArray(shaped)) {
+    return table(shaped);
+  }
+  if (!shaped || typeof shaped !== "object") {
+    return cell(shaped);
+  }
+
+  const sections: string[] = [];
+  const rest: Record<string, any> = {};
+  for (const [key, value] of Object.entries(shaped)) {
+    if (Array.isArray(value) && value.every((item) => item && typeof item === "object")) {
+      sections.push(`### ${key}\n\n${table(value)}`);
+    } else if (ENTITY_KEYS[key] && value && typeof value === "object") {
+      sections.push(`### ${key}\n\n${table([value])}`);
+    } else {
+      rest[key] = value;
+    }
+  }
+
+  if (sections.length === 0) {
+    return `| Field | Value |\n| --- | --- |\n${Object.entries(rest)
+      .map(([key, value]) => `| ${cell(key)} | ${cell(value)} |`)
+      .join("\n")}`;
+  }
+  if (Object.keys(rest).length > 0) {
+    sections.push("```json\n" + JSON.stringify(rest, null, 2) + "\n```");
+  }
+  return sections.join("\n\n");
+}
+
+export function formatResponse(
+  data: any,
+  options: FormatOptions,
+  entity?: EntityType
+): string {
+  const shaped = shape(data, entity, options);
+  if (options.format === "markdown_table") {
+    return markdown(shaped);
+  }
+  // Compact output drops the indentation too; full output stays human-readable
+  return options.format === "full"
+    ? JSON.stringify(shaped, null, 2)
+    : JSON.stringify(shaped);
+}
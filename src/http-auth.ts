@@ -0,0 +1,79 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { createHash, timingSafeEqual } from "node:crypto";
+
+// Error body in the JSON-RPC shape MCP clients expect, also for HTTP-level rejections
+export function sendJsonRpcError(
+  res: Response,
+  status: number,
+  message: string,
+  code = -32000
+) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+}
+
+export function apiKeysFromEnv(): string[] {
+  return (process.env.MCP_API_KEYS || "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+}
+
+// Host names for DNS rebinding protection; ports are ignored, so "localhost:3001" means "localhost"
+export function allowedHostnames(value: string | undefined, defaults: string[]): string[] {
+  const hosts = (value || "")
+    .split(",")
+    .map((host) => host.trim())
+    .filter(Boolean);
+  return (hosts.length > 0 ? hosts : defaults).map((host) => {
+    try {
+      return new URL(`http://${host}`).hostname;
+    } catch {
+      return host;
+    }
+  });
+}
+
+function presentedKey(req: Request): string | undefined {
+  const authorization = req.headers.authorization?.trim();
+  if (authorization) {
+    const bearer = /^Bearer\s+(.+)$/i.exec(authorization);
+    return bearer ? bearer[1].trim() : undefined;
+  }
+  const apiKey = req.headers["x-api-key"];
+  return (Array.isArray(apiKey) ? apiKey[0] : apiKey)?.trim() || undefined;
+}
+
+// Compare digests so the check takes the same time however much of a key matches
+function digest(key: string): Buffer {
+  return createHash("sha256").update(key).digest();
+}
+
+// Accepts `Authorization: Bearer <key>` or `X-API-Key: <key>`. A request without a key
+// gets 401, a request with an unknown key 403
+export function requireApiKey(keys: string[]): RequestHandler {
+  const digests = keys.map(digest);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = presentedKey(req);
+    if (!key) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="zoho-projects-mcp"');
+      sendJsonRpcError(
+        res,
+        401,
+        "Unauthorized: send an API key as 'Authorization: Bearer <key>' or 'X-API-Key: <key>'"
+      );
+      return;
+    }
+
+    const presented = digest(key);
+    if (!digests.some((candidate) => timingSafeEqual(candidate, presented))) {
+      sendJsonRpcError(res, 403, "Forbidden: invalid API key");
+      return;
+    }
+    next();
+  };
+}
@@ -1,991 +1,439 @@
 #!/usr/bin/env node
 
-import { Server } from "@modelcontextprotocol/sdk/server";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  ErrorCode,
-  McpError,
-} from "@modelcontextprotocol/sdk/types.js";
+import { hostHeaderValidation } from "@modelcontextprotocol/sdk/server/middleware/hostHeaderValidation.js";
+import { ErrorCode, isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import express from "express";
 import cors from "cors";
 import { randomUUID } from "node:crypto";
 import "dotenv/config";
+import { ZohoConfig, ZohoProjectsServer } from "./server.js";
+import { auditLog, AuditOutcome } from "./audit.js";
+import { parseToolList, ToolPolicy } from "./tool-policy.js";
+import { metrics } from "./metrics.js";
+import { envNumber } from "./rate-limit.js";
+import {
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  oauthConfigFromEnv,
+  persistTokens,
+} from "./oauth.js";
+import { allowedHostnames, apiKeysFromEnv, requireApiKey, sendJsonRpcError } from "./http-auth.js";
 
-interface ZohoConfig {
-  accessToken: string;
-  portalId: string;
-  apiDomain?: string;
-  refreshToken?: string;
-  clientId?: string;
-  clientSecret?: string;
-  accountsDomain?: string;
-}
-
-class ZohoProjectsServer {
-  private server: Server;
-  private config: ZohoConfig;
-  private baseUrl: string = "https://projectsapi.zoho.com/api/v3";
-  private tokenExpiresAt: number = 0; // Unix timestamp in milliseconds
-
-  constructor() {
-    this.server = new Server(
-      {
-        name: "zoho-projects-mcp-server",
-        version: "1.0.0",
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    // Load configuration from environment variables
-    this.config = {
-      accessToken: process.env.ZOHO_ACCESS_TOKEN || "",
-      portalId: process.env.ZOHO_PORTAL_ID || "",
-      apiDomain: process.env.ZOHO_API_DOMAIN || "https://projectsapi.zoho.com",
-      refreshToken: process.env.ZOHO_REFRESH_TOKEN || "",
-      clientId: process.env.ZOHO_CLIENT_ID || "",
-      clientSecret: process.env.ZOHO_CLIENT_SECRET || "",
-      accountsDomain: process.env.ZOHO_ACCOUNTS_DOMAIN || "https://accounts.zoho.com",
-    };
-
-    if (this.config.apiDomain) {
-      this.baseUrl = `${this.config.apiDomain}/api/v3`;
-    }
+// HTTP Server setup with session management
+const app = express();
 
-    // Set initial token expiration (assume current token expires in 1 hour if not known)
-    this.tokenExpiresAt = Date.now() + 3600 * 1000;
+// Server configuration
+const PORT = Number(process.env.HTTP_PORT) || 3001;
 
-    this.setupHandlers();
-  }
+// DNS rebinding protection: reject requests whose Host header is not an allowed host name
+const allowedHosts = allowedHostnames(process.env.ALLOWED_HOSTS, ["127.0.0.1", "localhost", "[::1]"]);
+app.use(hostHeaderValidation(allowedHosts));
 
-  private async refreshAccessToken(): Promise<void> {
-    if (!this.config.refreshToken || !this.config.clientId || !this.config.clientSecret) {
-      console.error("Cannot refresh token: missing refresh token, client ID, or client secret");
-      return;
-    }
+// CORS configuration
+const allowedOrigins = process.env.ALLOWED_ORIGINS
+  ? process.env.ALLOWED_ORIGINS.split(",")
+  : ["http://localhost:3000"];
 
-    try {
-      const params = new URLSearchParams({
-        refresh_token: this.config.refreshToken,
-        client_id: this.config.clientId,
-        client_secret: this.config.clientSecret,
-        grant_type: "refresh_token",
-      });
-
-      const response = await fetch(`${this.config.accountsDomain}/oauth/v2/token`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: params.toString(),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to refresh token: ${response.status} - ${errorText}`);
-      }
+app.use(
+  cors({
+    origin: allowedOrigins,
+    credentials: true,
+    // Browser clients must be able to read the session ID assigned on initialize
+    exposedHeaders: ["Mcp-Session-Id"],
+  })
+);
 
-      const data = await response.json() as {
-        access_token: string;
-        expires_in: number;
-      };
-
-      // Update access token and expiration time
-      this.config.accessToken = data.access_token;
-      // Set expiration to 5 minutes before actual expiry for safety margin
-      this.tokenExpiresAt = Date.now() + (data.expires_in - 300) * 1000;
-
-      console.error(`Access token refreshed successfully. Expires in ${data.expires_in} seconds.`);
-    } catch (error) {
-      console.error(`Error refreshing access token: ${error}`);
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to refresh access token: ${error}`
-      );
+// API keys for /mcp, /audit, /metrics and /oauth/start; without any, those endpoints are
+// open to anyone who can reach them. /oauth/callback cannot carry a key (Zoho redirects the
+// browser there), so it is instead bound to a state that only /oauth/start hands out
+const apiKeys = apiKeysFromEnv();
+const authenticate: express.RequestHandler =
+  apiKeys.length > 0 ? requireApiKey(apiKeys) : (req, res, next) => next();
+app.use("/mcp", authenticate);
+app.use("/audit", authenticate);
+app.use("/metrics", authenticate);
+app.use("/oauth/start", authenticate);
+
+// Bodies are only parsed once a request has passed the host and API key checks. MCP requests
+// are parsed here too, so /mcp can tell initialize requests apart before handing the body to
+// the session's transport. 4mb matches the transport's own limit
+app.use(express.json({ limit: "4mb" }));
+
+// Malformed or oversized bodies get a JSON-RPC error instead of Express's HTML error page
+app.use(
+  (error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (error?.type === "entity.parse.failed") {
+      sendJsonRpcError(res, 400, "Parse error: request body is not valid JSON", ErrorCode.ParseError);
+    } else if (error?.type === "entity.too.large") {
+      sendJsonRpcError(res, 413, "Request body too large");
+    } else {
+      next(error);
     }
   }
+);
 
-  private async makeRequest(
-    endpoint: string,
-    method: string = "GET",
-    body?: any,
-    isRetry: boolean = false
-  ): Promise<any> {
-    // Check if token needs refresh (5 minutes before expiry)
-    if (Date.now() >= this.tokenExpiresAt) {
-      await this.refreshAccessToken();
-    }
-
-    if (!this.config.accessToken) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        "Zoho access token not configured. Set ZOHO_ACCESS_TOKEN environment variable."
-      );
-    }
-
-    const url = `${this.baseUrl}${endpoint}`;
-    const headers: Record<string, string> = {
-      Authorization: `Zoho-oauthtoken ${this.config.accessToken}`,
-      "Content-Type": "application/json",
-    };
+// An MCP session: its transport, its own ZohoProjectsServer and when it was last used
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  server: ZohoProjectsServer;
+  lastActivity: number;
+  openRequests: number; // Includes GET streams held open for server notifications
+}
 
-    const options: {
-      method: string;
-      headers: Record<string, string>;
-      body?: string;
-    } = {
-      method,
-      headers,
-    };
+// Sessions by their server-generated ID
+const sessions: { [sessionId: string]: McpSession } = {};
 
-    if (body && (method === "POST" || method === "PATCH" || method === "PUT")) {
-      options.body = JSON.stringify(body);
-    }
+// 0 disables the limit / the expiry
+const MAX_SESSIONS = envNumber("MCP_MAX_SESSIONS", 100);
+const SESSION_IDLE_MS = envNumber("MCP_SESSION_IDLE_MINUTES", 30) * 60 * 1000;
+const SESSION_SWEEP_MS = 60 * 1000;
 
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-
-      // If 401 and we have refresh credentials and haven't retried yet, try refresh
-      if (response.status === 401 && !isRetry &&
-          this.config.refreshToken && this.config.clientId && this.config.clientSecret) {
-        console.error("Received 401 error, attempting token refresh...");
-        try {
-          await this.refreshAccessToken();
-          // Retry the request once with new token
-          return await this.makeRequest(endpoint, method, body, true);
-        } catch (refreshError) {
-          console.error("Token refresh failed:", refreshError);
-          // Fall through to throw original error
-        }
-      }
+// When set, every session must bring its own Zoho credentials instead of using the .env account
+const requireSessionCredentials = process.env.ZOHO_REQUIRE_SESSION_CREDENTIALS === "true";
 
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Zoho API error: ${response.status} - ${errorText}`
-      );
-    }
+// Read per-session Zoho credentials from the X-Zoho-* request headers
+function sessionCredentials(req: express.Request): Partial<ZohoConfig> | undefined {
+  const header = (name: string) => {
+    const value = req.headers[name];
+    return (Array.isArray(value) ? value[0] : value)?.trim();
+  };
 
-    return response.json();
+  const accessToken = header("x-zoho-access-token")?.replace(/^(Bearer|Zoho-oauthtoken)\s+/i, "");
+  const refreshToken = header("x-zoho-refresh-token");
+  if (!accessToken && !refreshToken) {
+    return undefined;
   }
 
-  private setupHandlers() {
-    // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        // Portal operations
-        {
-          name: "list_portals",
-          description: "Retrieve all Zoho Projects portals",
-          inputSchema: {
-            type: "object",
-            properties: {},
-          },
-        },
-        {
-          name: "get_portal",
-          description: "Get details of a specific portal",
-          inputSchema: {
-            type: "object",
-            properties: {
-              portal_id: { type: "string", description: "Portal ID" },
-            },
-            required: ["portal_id"],
-          },
-        },
-
-        // Project operations
-        {
-          name: "list_projects",
-          description: "List all projects in a portal",
-          inputSchema: {
-            type: "object",
-            properties: {
-              page: { type: "number", description: "Page number", default: 1 },
-              per_page: {
-                type: "number",
-                description: "Items per page",
-                default: 10,
-              },
-            },
-          },
-        },
-        {
-          name: "get_project",
-          description: "Get details of a specific project",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-            },
-            required: ["project_id"],
-          },
-        },
-        {
-          name: "create_project",
-          description: "Create a new project",
-          inputSchema: {
-            type: "object",
-            properties: {
-              name: { type: "string", description: "Project name" },
-              description: { type: "string", description: "Project description" },
-              start_date: {
-                type: "string",
-                description: "Start date (YYYY-MM-DD)",
-              },
-              end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
-              is_public: {
-                type: "boolean",
-                description: "Is project public",
-                default: false,
-              },
-            },
-            required: ["name"],
-          },
-        },
-        {
-          name: "update_project",
-          description: "Update an existing project",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-              name: { type: "string", description: "Project name" },
-              description: { type: "string", description: "Project description" },
-              start_date: {
-                type: "string",
-                description: "Start date (YYYY-MM-DD)",
-              },
-              end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
-              status: {
-                type: "string",
-                description: "Project status",
-                enum: ["active", "template", "archived"],
-              },
-            },
-            required: ["project_id"],
-          },
-        },
-        {
-          name: "delete_project",
-          description: "Delete a project (moves to trash)",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-            },
-            required: ["project_id"],
-          },
-        },
-
-        // Task operations
-        {
-          name: "list_tasks",
-          description: "List tasks from a project or portal",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: {
-                type: "string",
-                description: "Project ID (optional for portal-level)",
-              },
-              page: { type: "number", description: "Page number", default: 1 },
-              per_page: {
-                type: "number",
-                description: "Items per page",
-                default: 10,
-              },
-            },
-          },
-        },
-        {
-          name: "get_task",
-          description: "Get details of a specific task",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-              task_id: { type: "string", description: "Task ID" },
-            },
-            required: ["project_id", "task_id"],
-          },
-        },
-        {
-          name: "create_task",
-          description: "Create a new task in a project",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-              name: { type: "string", description: "Task name" },
-              description: { type: "string", description: "Task description" },
-              priority: {
-                type: "string",
-                description: "Task priority",
-                enum: ["none", "low", "medium", "high"],
-              },
-              start_date: {
-                type: "string",
-                description: "Start date (YYYY-MM-DD)",
-              },
-              end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
-              assignee_zpuid: {
-                type: "string",
-                description: "Assignee user ZPUID",
-              },
-            },
-            required: ["project_id", "name"],
-          },
-        },
-        {
-          name: "update_task",
-          description: "Update a task",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-              task_id: { type: "string", description: "Task ID" },
-              name: { type: "string", description: "Task name" },
-              description: { type: "string", description: "Task description" },
-              priority: {
-                type: "string",
-                description: "Task priority",
-                enum: ["none", "low", "medium", "high"],
-              },
-              start_date: {
-                type: "string",
-                description: "Start date (YYYY-MM-DD)",
-              },
-              end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
-            },
-            required: ["project_id", "task_id"],
-          },
-        },
-        {
-          name: "delete_task",
-          description: "Delete a task",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-              task_id: { type: "string", description: "Task ID" },
-            },
-            required: ["project_id", "task_id"],
-          },
-        },
-
-        // Issue operations
-        {
-          name: "list_issues",
-          description: "List issues from a project or portal",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: {
-                type: "string",
-                description: "Project ID (optional for portal-level)",
-              },
-              page: { type: "number", description: "Page number", default: 1 },
-              per_page: {
-                type: "number",
-                description: "Items per page",
-                default: 10,
-              },
-            },
-          },
-        },
-        {
-          name: "get_issue",
-          description: "Get details of a specific issue",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-              issue_id: { type: "string", description: "Issue ID" },
-            },
-            required: ["project_id", "issue_id"],
-          },
-        },
-        {
-          name: "create_issue",
-          description: "Create a new issue",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-              title: { type: "string", description: "Issue title" },
-              description: { type: "string", description: "Issue description" },
-              severity: {
-                type: "string",
-                description: "Issue severity",
-                enum: ["minor", "major", "critical"],
-              },
-              due_date: { type: "string", description: "Due date (YYYY-MM-DD)" },
-            },
-            required: ["project_id", "title"],
-          },
-        },
-        {
-          name: "update_issue",
-          description: "Update an issue",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-              issue_id: { type: "string", description: "Issue ID" },
-              title: { type: "string", description: "Issue title" },
-              description: { type: "string", description: "Issue description" },
-              severity: {
-                type: "string",
-                description: "Issue severity",
-                enum: ["minor", "major", "critical"],
-              },
-            },
-            required: ["project_id", "issue_id"],
-          },
-        },
-
-        // Milestone/Phase operations
-        {
-          name: "list_phases",
-          description: "List phases/milestones from a project",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-              page: { type: "number", description: "Page number", default: 1 },
-              per_page: {
-                type: "number",
-                description: "Items per page",
-                default: 10,
-              },
-            },
-            required: ["project_id"],
-          },
-        },
-        {
-          name: "create_phase",
-          description: "Create a new phase/milestone",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: { type: "string", description: "Project ID" },
-              name: { type: "string", description: "Phase name" },
-              start_date: {
-                type: "string",
-                description: "Start date (YYYY-MM-DD)",
-              },
-              end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
-              owner_zpuid: { type: "string", description: "Owner user ZPUID" },
-            },
-            required: ["project_id", "name"],
-          },
-        },
-
-        // Search
-        {
-          name: "search",
-          description: "Search across portal or project",
-          inputSchema: {
-            type: "object",
-            properties: {
-              search_term: {
-                type: "string",
-                description: "Search term/query",
-              },
-              project_id: {
-                type: "string",
-                description: "Project ID (optional for portal-level search)",
-              },
-              module: {
-                type: "string",
-                description: "Module to search in",
-                enum: [
-                  "all",
-                  "projects",
-                  "tasks",
-                  "issues",
-                  "milestones",
-                  "forums",
-                  "events",
-                ],
-              },
-              page: { type: "number", description: "Page number", default: 1 },
-              per_page: {
-                type: "number",
-                description: "Items per page",
-                default: 10,
-              },
-            },
-            required: ["search_term"],
-          },
-        },
-
-        // Users
-        {
-          name: "list_users",
-          description: "List users in a portal or project",
-          inputSchema: {
-            type: "object",
-            properties: {
-              project_id: {
-                type: "string",
-                description: "Project ID (optional for portal-level)",
-              },
-            },
-          },
-        },
-      ],
-    }));
-
-    // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      // Cast args to any since JSON schema validation handles type safety
-      const params = (args || {}) as any;
-
-      try {
-        switch (name) {
-          // Portal operations
-          case "list_portals":
-            return await this.listPortals();
-          case "get_portal":
-            return await this.getPortal(params.portal_id);
-
-          // Project operations
-          case "list_projects":
-            return await this.listProjects(params.page, params.per_page);
-          case "get_project":
-            return await this.getProject(params.project_id);
-          case "create_project":
-            return await this.createProject(params);
-          case "update_project":
-            return await this.updateProject(params);
-          case "delete_project":
-            return await this.deleteProject(params.project_id);
-
-          // Task operations
-          case "list_tasks":
-            return await this.listTasks(params.project_id, params.page, params.per_page);
-          case "get_task":
-            return await this.getTask(params.project_id, params.task_id);
-          case "create_task":
-            return await this.createTask(params);
-          case "update_task":
-            return await this.updateTask(params);
-          case "delete_task":
-            return await this.deleteTask(params.project_id, params.task_id);
-
-          // Issue operations
-          case "list_issues":
-            return await this.listIssues(params.project_id, params.page, params.per_page);
-          case "get_issue":
-            return await this.getIssue(params.project_id, params.issue_id);
-          case "create_issue":
-            return await this.createIssue(params);
-          case "update_issue":
-            return await this.updateIssue(params);
-
-          // Phase operations
-          case "list_phases":
-            return await this.listPhases(params.project_id, params.page, params.per_page);
-          case "create_phase":
-            return await this.createPhase(params);
-
-          // Search
-          case "search":
-            return await this.search(params);
-
-          // Users
-          case "list_users":
-            return await this.listUsers(params.project_id);
-
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${name}`
-            );
-        }
-      } catch (error) {
-        if (error instanceof McpError) throw error;
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Error executing ${name}: ${error}`
-        );
-      }
-    });
+  const credentials: Partial<ZohoConfig> = {
+    accessToken: accessToken || "",
+    refreshToken: refreshToken || "",
+  };
+  const portalId = header("x-zoho-portal-id");
+  if (portalId) {
+    credentials.portalId = portalId;
   }
+  return credentials;
+}
 
-  // Portal operations
-  private async listPortals() {
-    const data = await this.makeRequest("/portals");
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
-  }
+// Read per-session tool restrictions from the X-Zoho-* request headers; they can only
+// narrow what the server's own ZOHO_READ_ONLY / ZOHO_ALLOWED_TOOLS / ZOHO_DENIED_TOOLS permit
+function sessionToolPolicy(req: express.Request): ToolPolicy | undefined {
+  const header = (name: string) => {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const policy: ToolPolicy = {
+    source: "session",
+    readOnly: header("x-zoho-read-only")?.trim().toLowerCase() === "true",
+    allow: parseToolList(header("x-zoho-allowed-tools")),
+    deny: parseToolList(header("x-zoho-denied-tools")),
+  };
+  return policy.readOnly || policy.allow || policy.deny ? policy : undefined;
+}
 
-  private async getPortal(portalId: string) {
-    const data = await this.makeRequest(`/portal/${portalId}`);
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
-  }
+function sessionIdOf(req: express.Request): string | undefined {
+  const value = req.headers["mcp-session-id"];
+  return Array.isArray(value) ? value[0] : value;
+}
 
-  // Project operations
-  private async listProjects(page: number = 1, perPage: number = 10) {
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects?page=${page}&per_page=${perPage}`
-    );
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
-  }
+// Closing the server also closes its transport and stops its resource polling
+async function closeSession(sessionId: string, reason: string) {
+  const session = sessions[sessionId];
+  if (!session) return;
+  delete sessions[sessionId];
+  console.error(`MCP session closed: ${sessionId} (${reason})`);
+  await session.server.getServer().close().catch((error) => {
+    console.error(`Error closing MCP session ${sessionId}:`, error);
+  });
+}
 
-  private async getProject(projectId: string) {
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${projectId}`
-    );
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
+async function createSession(req: express.Request, res: express.Response) {
+  if (MAX_SESSIONS > 0 && Object.keys(sessions).length >= MAX_SESSIONS) {
+    res.setHeader("Retry-After", "60");
+    sendJsonRpcError(res, 503, `Too many sessions: the server allows at most ${MAX_SESSIONS}`);
+    return;
   }
 
-  private async createProject(params: any) {
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects`,
-      "POST",
-      params
+  const credentials = sessionCredentials(req);
+  if (!credentials && requireSessionCredentials) {
+    sendJsonRpcError(
+      res,
+      401,
+      "This server requires per-session Zoho credentials. " +
+        "Send X-Zoho-Access-Token and/or X-Zoho-Refresh-Token."
     );
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Project created successfully:\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
+    return;
   }
 
-  private async updateProject(params: any) {
-    const { project_id, ...updateData } = params;
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${project_id}`,
-      "PATCH",
-      updateData
-    );
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Project updated successfully:\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
-  }
+  const server = new ZohoProjectsServer(credentials, sessionToolPolicy(req));
+  // The session is only registered once initialize succeeds and its ID has been generated
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (sessionId) => {
+      sessions[sessionId] = { transport, server, lastActivity: Date.now(), openRequests: 0 };
+      console.error(
+        `New MCP session created: ${sessionId}` +
+          (credentials ? " (session credentials)" : " (shared credentials)")
+      );
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId && sessions[transport.sessionId]?.transport === transport) {
+      delete sessions[transport.sessionId];
+      console.error(`MCP session closed: ${transport.sessionId} (terminated by client)`);
+    }
+  };
 
-  private async deleteProject(projectId: string) {
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${projectId}/trash`,
-      "POST"
-    );
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Project moved to trash successfully:\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
-  }
+  await server.getServer().connect(transport);
+  await transport.handleRequest(req, res, req.body);
+}
 
-  // Task operations
-  private async listTasks(
-    projectId?: string,
-    page: number = 1,
-    perPage: number = 10
-  ) {
-    const endpoint = projectId
-      ? `/portal/${this.config.portalId}/projects/${projectId}/tasks?page=${page}&per_page=${perPage}`
-      : `/portal/${this.config.portalId}/tasks?page=${page}&per_page=${perPage}`;
-    const data = await this.makeRequest(endpoint);
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
+// Route a request to its session; the transport itself handles DELETE termination
+async function handleSessionRequest(req: express.Request, res: express.Response) {
+  const sessionId = sessionIdOf(req);
+  const session = sessionId ? sessions[sessionId] : undefined;
+  if (!session) {
+    // 404 tells the client to start a new session with a fresh initialize request
+    if (sessionId) {
+      sendJsonRpcError(res, 404, `Session not found: ${sessionId}`, -32001);
+    } else {
+      sendJsonRpcError(res, 400, "Bad Request: missing Mcp-Session-Id header");
+    }
+    return;
   }
 
-  private async getTask(projectId: string, taskId: string) {
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${projectId}/tasks/${taskId}`
-    );
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
-  }
+  session.openRequests += 1;
+  session.lastActivity = Date.now();
+  res.on("close", () => {
+    session.openRequests -= 1;
+    session.lastActivity = Date.now();
+  });
+  await session.transport.handleRequest(req, res, req.body);
+}
 
-  private async createTask(params: any) {
-    const { project_id, ...taskData } = params;
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${project_id}/tasks`,
-      "POST",
-      taskData
+function handleMcpError(res: express.Response, error: unknown) {
+  console.error("Error handling MCP request:", error);
+  if (!res.headersSent) {
+    sendJsonRpcError(
+      res,
+      500,
+      `Internal server error: ${error instanceof Error ? error.message : String(error)}`,
+      ErrorCode.InternalError
     );
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Task created successfully:\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
   }
+}
 
-  private async updateTask(params: any) {
-    const { project_id, task_id, ...taskData } = params;
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${project_id}/tasks/${task_id}`,
-      "PATCH",
-      taskData
-    );
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Task updated successfully:\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
+// MCP endpoint: POST carries client messages, and an initialize request without a
+// session ID opens a new session
+app.post("/mcp", async (req, res) => {
+  try {
+    if (!sessionIdOf(req) && isInitializeRequest(req.body)) {
+      await createSession(req, res);
+    } else {
+      await handleSessionRequest(req, res);
+    }
+  } catch (error) {
+    handleMcpError(res, error);
   }
+});
 
-  private async deleteTask(projectId: string, taskId: string) {
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${projectId}/tasks/${taskId}`,
-      "DELETE"
-    );
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Task deleted successfully:\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
+// GET opens a stream for server-initiated messages, e.g. resource update notifications
+app.get("/mcp", async (req, res) => {
+  try {
+    await handleSessionRequest(req, res);
+  } catch (error) {
+    handleMcpError(res, error);
   }
+});
 
-  // Issue operations
-  private async listIssues(
-    projectId?: string,
-    page: number = 1,
-    perPage: number = 10
-  ) {
-    const endpoint = projectId
-      ? `/portal/${this.config.portalId}/projects/${projectId}/issues?page=${page}&per_page=${perPage}`
-      : `/portal/${this.config.portalId}/issues?page=${page}&per_page=${perPage}`;
-    const data = await this.makeRequest(endpoint);
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
+// DELETE terminates the session
+app.delete("/mcp", async (req, res) => {
+  try {
+    await handleSessionRequest(req, res);
+  } catch (error) {
+    handleMcpError(res, error);
   }
+});
 
-  private async getIssue(projectId: string, issueId: string) {
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${projectId}/issues/${issueId}`
-    );
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
-  }
+// Expire sessions that have had no requests, and no open stream, for SESSION_IDLE_MS
+if (SESSION_IDLE_MS > 0) {
+  setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [sessionId, session] of Object.entries(sessions)) {
+      if (session.openRequests === 0 && session.lastActivity < cutoff) {
+        void closeSession(sessionId, "idle");
+      }
+    }
+  }, Math.min(SESSION_SWEEP_MS, SESSION_IDLE_MS)).unref();
+}
 
-  private async createIssue(params: any) {
-    const { project_id, ...issueData } = params;
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${project_id}/issues`,
-      "POST",
-      issueData
-    );
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Issue created successfully:\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
-  }
+// OAuth authorization-code flow
+// Pending authorizations by state, so a callback can only complete a flow this server started
+const oauthStates: { [state: string]: { persist: boolean; expiresAt: number } } = {};
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
 
-  private async updateIssue(params: any) {
-    const { project_id, issue_id, ...issueData } = params;
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${project_id}/issues/${issue_id}`,
-      "PATCH",
-      issueData
-    );
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Issue updated successfully:\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
-  }
+// Replacing the deployment's shared Zoho account through the browser is opt-in
+const oauthAllowPersist = process.env.ZOHO_OAUTH_ALLOW_PERSIST === "true";
 
-  // Phase operations
-  private async listPhases(
-    projectId: string,
-    page: number = 1,
-    perPage: number = 10
-  ) {
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${projectId}/phases?page=${page}&per_page=${perPage}`
-    );
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
-  }
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
 
-  private async createPhase(params: any) {
-    const { project_id, ...phaseData } = params;
-    const data = await this.makeRequest(
-      `/portal/${this.config.portalId}/projects/${project_id}/phases`,
-      "POST",
-      phaseData
-    );
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Phase created successfully:\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
+app.get("/oauth/start", (req, res) => {
+  // Without ?persist the flow saves the shared credentials only where that is allowed;
+  // otherwise the tokens are handed back to the user for X-Zoho-* session headers
+  const persist =
+    req.query.persist === undefined ? oauthAllowPersist : req.query.persist !== "false";
+  if (persist && !oauthAllowPersist) {
+    res.status(403).json({
+      error: "Forbidden",
+      message:
+        "Saving the server's shared Zoho credentials is disabled. " +
+        "Set ZOHO_OAUTH_ALLOW_PERSIST=true, or use /oauth/start?persist=false.",
+    });
+    return;
   }
 
-  // Search
-  private async search(params: any) {
-    const { search_term, project_id, module = "all", page = 1, per_page = 10 } = params;
-    const endpoint = project_id
-      ? `/portal/${this.config.portalId}/projects/${project_id}/search?search_term=${encodeURIComponent(search_term)}&module=${module}&page=${page}&per_page=${per_page}`
-      : `/portal/${this.config.portalId}/search?search_term=${encodeURIComponent(search_term)}&module=${module}&status=active&page=${page}&per_page=${per_page}`;
-    const data = await this.makeRequest(endpoint);
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
+  try {
+    const config = oauthConfigFromEnv(`http://localhost:${PORT}/oauth/callback`);
+    const state = randomUUID();
+    const now = Date.now();
+    // Drop abandoned flows so repeated starts cannot grow the table without bound
+    for (const [pendingState, pending] of Object.entries(oauthStates)) {
+      if (pending.expiresAt < now) delete oauthStates[pendingState];
+    }
+    oauthStates[state] = { persist, expiresAt: now + OAUTH_STATE_TTL_MS };
+    res.redirect(buildAuthorizationUrl(config, state));
+  } catch (error) {
+    res.status(500).json({
+      error: "OAuth not configured",
+      message: error instanceof Error ? error.message : String(error)
+    });
   }
+});
 
-  // Users
-  private async listUsers(projectId?: string) {
-    const endpoint = projectId
-      ? `/portal/${this.config.portalId}/projects/${projectId}/users`
-      : `/portal/${this.config.portalId}/users`;
-    const data = await this.makeRequest(endpoint);
-    return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-    };
-  }
+app.get("/oauth/callback", async (req, res) => {
+  const state = String(req.query.state || "");
+  const pending = oauthStates[state];
+  delete oauthStates[state];
 
-  getServer(): Server {
-    return this.server;
+  if (!pending || pending.expiresAt < Date.now()) {
+    res.status(400).send("Invalid or expired OAuth state. Start again from /oauth/start.");
+    return;
+  }
+  if (!req.query.code) {
+    res.status(400).send(`Authorization failed: ${escapeHtml(String(req.query.error || "no code"))}`);
+    return;
   }
-}
 
-// HTTP Server setup with session management
-const app = express();
+  try {
+    const config = oauthConfigFromEnv(`http://localhost:${PORT}/oauth/callback`);
+    const tokens = await exchangeAuthorizationCode(config, String(req.query.code));
+
+    if (pending.persist) {
+      await persistTokens(tokens);
+      zohoCheck = undefined;
+      console.error("OAuth authorization completed; tokens saved");
+      res.send("Zoho Projects MCP is authorized. New sessions will use this account.");
+      return;
+    }
 
-// Use json middleware only for non-MCP routes
-app.use((req, res, next) => {
-  if (req.path === '/mcp') {
-    next();
-  } else {
-    express.json()(req, res, next);
+    // The page shows a long-lived refresh token, so browsers and proxies must not keep a copy
+    res.setHeader("Cache-Control", "no-store");
+    res.send(
+      "<p>Zoho Projects MCP is authorized. Send this header when opening MCP sessions:</p>" +
+        `<pre>X-Zoho-Refresh-Token: ${escapeHtml(tokens.refresh_token || "")}</pre>`
+    );
+  } catch (error) {
+    console.error("OAuth callback failed:", error);
+    res.status(500).send(`Authorization failed: ${escapeHtml(String(error))}`);
   }
 });
 
-// Server configuration
-const PORT = Number(process.env.HTTP_PORT) || 3001;
-
-// Default allowed hosts with port
-const defaultAllowedHosts = [
-  "127.0.0.1",
-  "localhost",
-  `localhost:${PORT}`,
-  `127.0.0.1:${PORT}`
-];
-
-// CORS configuration
-const allowedOrigins = process.env.ALLOWED_ORIGINS
-  ? process.env.ALLOWED_ORIGINS.split(",")
-  : ["http://localhost:3000"];
-
-app.use(
-  cors({
-    origin: allowedOrigins,
-    credentials: true,
-  })
-);
+// Readiness of the shared Zoho credentials, re-checked at most every HEALTH_CHECK_TTL_MS
+// so frequent probes neither slow down nor eat into the API quota
+interface ZohoCheck {
+  status: "ok" | "error" | "skipped";
+  portals?: number;
+  latency_ms?: number;
+  checked_at?: string;
+  error?: string;
+}
 
-// Store transports by session ID
-const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
-const servers: { [sessionId: string]: ZohoProjectsServer } = {};
+const HEALTH_CHECK_TTL_MS = 30 * 1000;
+let zohoCheck: { startedAt: number; result: Promise<ZohoCheck> } | undefined;
 
-// MCP endpoint
-app.post("/mcp", async (req, res) => {
-  try {
-    // Get or create session ID from header or generate new one
-    let sessionId = (req.headers["mcp-session-id"] || req.headers["x-session-id"]) as string;
-
-    if (!sessionId) {
-      sessionId = randomUUID();
-    }
-
-    // Create new transport and server for this session if it doesn't exist
-    if (!transports[sessionId]) {
-      const allowedHosts = process.env.ALLOWED_HOSTS
-        ? process.env.ALLOWED_HOSTS.split(",")
-        : defaultAllowedHosts;
+function checkZoho(): Promise<ZohoCheck> {
+  // Sessions bring their own credentials, so there is no shared account to verify
+  if (requireSessionCredentials) {
+    return Promise.resolve({ status: "skipped" });
+  }
 
-      transports[sessionId] = new StreamableHTTPServerTransport({
-        sessionIdGenerator: () => sessionId,
-        enableDnsRebindingProtection: false,
-      });
+  if (!zohoCheck || Date.now() - zohoCheck.startedAt > HEALTH_CHECK_TTL_MS) {
+    // A fresh server per check picks up tokens that /oauth/callback has since rotated
+    const healthServer = new ZohoProjectsServer();
+    const startedAt = Date.now();
+    const finished = () => ({
+      latency_ms: Date.now() - startedAt,
+      checked_at: new Date(startedAt).toISOString(),
+    });
+    zohoCheck = {
+      startedAt,
+      result: healthServer.checkConnection().then(
+        ({ portals }): ZohoCheck => ({ status: "ok", portals, ...finished() }),
+        (error): ZohoCheck => ({
+          status: "error",
+          error: error instanceof Error ? error.message : String(error),
+          ...finished(),
+        })
+      ),
+    };
+  }
+  return zohoCheck.result;
+}
 
-      servers[sessionId] = new ZohoProjectsServer();
-      await servers[sessionId].getServer().connect(transports[sessionId]);
+// Health check endpoint; answers 503 when Zoho rejects the shared credentials
+app.get("/health", async (req, res) => {
+  const zoho = await checkZoho();
+  res.status(zoho.status === "error" ? 503 : 200).json({
+    status: zoho.status === "error" ? "unavailable" : "ok",
+    activeSessions: Object.keys(sessions).length,
+    checks: { zoho },
+    timestamp: new Date().toISOString()
+  });
+});
 
-      console.error(`New MCP session created: ${sessionId}`);
-    }
+// Prometheus metrics
+app.get("/metrics", (req, res) => {
+  metrics.activeSessions.set(Object.keys(sessions).length);
+  res.type("text/plain; version=0.0.4; charset=utf-8").send(metrics.render());
+});
 
-    // Set session ID in response header
-    res.setHeader("X-Session-ID", sessionId);
+// Audit log of mutating tool calls, e.g. /audit?tool=delete_task&since=2025-01-01
+app.get("/audit", async (req, res) => {
+  const param = (name: string) =>
+    typeof req.query[name] === "string" ? (req.query[name] as string) : undefined;
+  const limit = Number(param("limit") ?? 100);
 
-    // Handle the request
-    await transports[sessionId].handleRequest(req, res);
+  try {
+    const entries = await auditLog.query({
+      sessionId: param("session_id"),
+      tool: param("tool"),
+      outcome: param("outcome") as AuditOutcome | undefined,
+      since: param("since"),
+      limit: Number.isFinite(limit) ? limit : 100,
+    });
+    res.json({ entries });
   } catch (error) {
-    console.error("Error handling MCP request:", error);
-    if (!res.headersSent) {
-      res.status(500).json({
-        error: "Internal server error",
-        message: error instanceof Error ? error.message : String(error)
-      });
-    }
+    res.status(500).json({
+      error: "Audit log unavailable",
+      message: error instanceof Error ? error.message : String(error)
+    });
   }
 });
 
-// Health check endpoint
-app.get("/health", (req, res) => {
-  res.json({
-    status: "ok",
-    activeSessions: Object.keys(transports).length,
-    timestamp: new Date().toISOString()
-  });
-});
-
 // Server info endpoint
 app.get("/", (req, res) => {
   res.json({
@@ -995,8 +443,12 @@ app.get("/", (req, res) => {
     endpoints: {
       mcp: "/mcp",
       health: "/health",
+      audit: "/audit",
+      metrics: "/metrics",
+      oauthStart: "/oauth/start",
+      oauthCallback: "/oauth/callback",
     },
-    activeSessions: Object.keys(transports).length,
+    activeSessions: Object.keys(sessions).length,
   });
 });
 
@@ -1004,4 +456,8 @@ app.listen(PORT, "0.0.0.0", () => {
   console.error(`Zoho Projects MCP HTTP server running on 0.0.0.0:${PORT}`);
   console.error(`MCP endpoint: http://localhost:${PORT}/mcp`);
   console.error(`Health check: http://localhost:${PORT}/health`);
+  console.error(`Allowed hosts: ${allowedHosts.join(", ")}`);
+  if (apiKeys.length === 0) {
+    console.error("Warning: MCP_API_KEYS is not set; /mcp, /audit, /metrics and /oauth/start accept unauthenticated requests");
+  }
 });
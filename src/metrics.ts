@@ -0,0 +1,150 @@
+// Process-wide counters in the Prometheus text exposition format, served at /metrics
+
+type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labelText(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  protected entry(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const key = labelText(labels);
+    if (!this.series.has(key)) this.series.set(key, { labels, value: initial() });
+    return this.series.get(key)!;
+  }
+
+  protected abstract samples(labels: Labels, value: T): string[];
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.samples(labels, value));
+    }
+    return lines;
+  }
+}
+
+class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, by = 1) {
+    this.entry(labels, () => 0).value += by;
+  }
+
+  protected samples(labels: Labels, value: number) {
+    return [`${this.name}${labelText(labels)} ${value}`];
+  }
+}
+
+class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(value: number, labels: Labels = {}) {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  protected samples(labels: Labels, value: number) {
+    return [`${this.name}${labelText(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  counts: number[]; // Per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+class Histogram extends Metric<HistogramValue> {
+  constructor(name: string, help: string, private buckets: number[]) {
+    super(name, help, "histogram");
+  }
+
+  observe(value: number, labels: Labels = {}) {
+    const entry = this.entry(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket >= 0) entry.counts[bucket] += 1;
+    entry.sum += value;
+    entry.count += 1;
+  }
+
+  protected samples(labels: Labels, value: HistogramValue) {
+    let cumulative = 0;
+    const lines = this.buckets.map((bound, index) => {
+      cumulative += value.counts[index];
+      return `${this.name}_bucket${labelText({ ...labels, le: String(bound) })} ${cumulative}`;
+    });
+    lines.push(`${this.name}_bucket${labelText({ ...labels, le: "+Inf" })} ${value.count}`);
+    lines.push(`${this.name}_sum${labelText(labels)} ${value.sum}`);
+    lines.push(`${this.name}_count${labelText(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+class Metrics {
+  readonly toolCalls = new Counter(
+    "zoho_mcp_tool_calls_total",
+    "Tool calls by tool and outcome (success, partial, error or dry_run)"
+  );
+  readonly toolDuration = new Histogram(
+    "zoho_mcp_tool_call_duration_seconds",
+    "Tool call latency in seconds, including retries and rate limiting",
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+  );
+  readonly zohoErrors = new Counter(
+    "zoho_mcp_zoho_api_errors_total",
+    "Failed Zoho API requests by HTTP status, after retries (status \"network\" if no response)"
+  );
+  readonly tokenRefreshes = new Counter(
+    "zoho_mcp_token_refreshes_total",
+    "Access token refreshes sent to Zoho accounts, by result (success or failure)"
+  );
+  readonly rateLimitHits = new Counter(
+    "zoho_mcp_rate_limit_hits_total",
+    "Requests delayed by the client-side limiter (source=client) or a Zoho 429 (source=zoho)"
+  );
+  readonly activeSessions = new Gauge("zoho_mcp_active_sessions", "Open MCP sessions");
+
+  recordToolCall(tool: string, outcome: string, durationMs: number) {
+    this.toolCalls.inc({ tool, outcome });
+    this.toolDuration.observe(durationMs / 1000, { tool });
+  }
+
+  render(): string {
+    return (
+      [
+        this.toolCalls,
+        this.toolDuration,
+        this.zohoErrors,
+        this.tokenRefreshes,
+        this.rateLimitHits,
+        this.activeSessions,
+      ]
+        .flatMap((metric) => metric.render())
+        .join("\n") + "\n"
+    );
+  }
+}
+
+// Shared by every ZohoProjectsServer instance in the process
+export const metrics = new Metrics();
@@ -0,0 +1,183 @@
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+
+// Scopes needed by every tool the server exposes
+export const ZOHO_SCOPES = [
+  "ZohoProjects.portals.ALL",
+  "ZohoProjects.projects.ALL",
+  "ZohoProjects.tasks.ALL",
+  "ZohoProjects.tasklists.ALL",
+  "ZohoProjects.bugs.ALL",
+  "ZohoProjects.milestones.ALL",
+  "ZohoProjects.timesheets.ALL",
+  "ZohoProjects.users.READ",
+  "ZohoSearch.securesearch.READ",
+];
+
+export interface OAuthClientConfig {
+  clientId: string;
+  clientSecret: string;
+  accountsDomain: string;
+  redirectUri: string;
+}
+
+export interface ZohoTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  api_domain?: string;
+  token_type?: string;
+}
+
+export function oauthConfigFromEnv(defaultRedirectUri: string): OAuthClientConfig {
+  const config = {
+    clientId: process.env.ZOHO_CLIENT_ID || "",
+    clientSecret: process.env.ZOHO_CLIENT_SECRET || "",
+    accountsDomain: process.env.ZOHO_ACCOUNTS_DOMAIN || "https://accounts.zoho.com",
+    redirectUri: process.env.ZOHO_REDIRECT_URI || defaultRedirectUri,
+  };
+
+  if (!config.clientId || !config.clientSecret) {
+    throw new Error(
+      "ZOHO_CLIENT_ID and ZOHO_CLIENT_SECRET must be set to run the OAuth authorization flow"
+    );
+  }
+  return config;
+}
+
+export function buildAuthorizationUrl(config: OAuthClientConfig, state: string): string {
+  const params = new URLSearchParams({
+    scope: ZOHO_SCOPES.join(","),
+    client_id: config.clientId,
+    response_type: "code",
+    access_type: "offline",
+    // Without consent Zoho only issues a refresh token on the very first authorization
+    prompt: "consent",
+    redirect_uri: config.redirectUri,
+    state,
+  });
+  return `${config.accountsDomain}/oauth/v2/auth?${params.toString()}`;
+}
+
+export async function exchangeAuthorizationCode(
+  config: OAuthClientConfig,
+  code: string
+): Promise<ZohoTokenResponse> {
+  const params = new URLSearchParams({
+    code,
+    client_id: config.clientId,
+    client_secret: config.clientSecret,
+    redirect_uri: config.redirectUri,
+    grant_type: "authorization_code",
+  });
+
+  const response = await fetch(`${config.accountsDomain}/oauth/v2/token`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to exchange authorization code: ${response.status} - ${errorText}`);
+  }
+
+  // Zoho reports a rejected code with 200 and an error field
+  const data = (await response.json()) as ZohoTokenResponse & { error?: string };
+  if (data.error || !data.access_token) {
+    throw new Error(
+      `Failed to exchange authorization code: ${data.error || "no access token returned"}`
+    );
+  }
+  return data;
+}
+
+// Writes the tokens into the env file and the running process so new sessions pick them up
+export async function persistTokens(
+  tokens: ZohoTokenResponse,
+  envFile: string = process.env.ZOHO_ENV_FILE || ".env"
+): Promise<void> {
+  const values: Record<string, string> = { ZOHO_ACCESS_TOKEN: tokens.access_token };
+  if (tokens.refresh_token) {
+    values.ZOHO_REFRESH_TOKEN = tokens.refresh_token;
+  }
+
+  let contents = "";
+  try {
+    contents = await readFile(envFile, "utf8");
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") throw error;
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    const line = `${key}=${value}`;
+    const pattern = new RegExp(`^${key}=.*$`, "m");
+    if (pattern.test(contents)) {
+      contents = contents.replace(pattern, line);
+    } else {
+      contents = `${contents}${contents && !contents.endsWith("\n") ? "\n" : ""}${line}\n`;
+    }
+    process.env[key] = value;
+  }
+
+  await writeFile(envFile, contents, { mode: 0o600 });
+}
+
+// One-shot flow for the stdio binary: serve the redirect URI locally until Zoho calls back once
+export async function runLocalAuthorization(): Promise<void> {
+  const config = oauthConfigFromEnv("http://localhost:8080/callback");
+  const redirect = new URL(config.redirectUri);
+  const state = randomUUID();
+
+  const tokens = await new Promise<ZohoTokenResponse>((resolve, reject) => {
+    const callbackServer = createServer(async (req, res) => {
+      const url = new URL(req.url || "/", config.redirectUri);
+      if (url.pathname !== redirect.pathname) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const finish = (status: number, message: string) => {
+        res.writeHead(status, { "Content-Type": "text/plain" }).end(message);
+        callbackServer.close();
+      };
+
+      if (url.searchParams.get("state") !== state) {
+        finish(400, "Invalid OAuth state. Restart the authorization.");
+        reject(new Error("OAuth callback state did not match"));
+        return;
+      }
+      const code = url.searchParams.get("code");
+      if (!code) {
+        const error = url.searchParams.get("error") || "no authorization code returned";
+        finish(400, `Authorization failed: ${error}`);
+        reject(new Error(`Authorization failed: ${error}`));
+        return;
+      }
+
+      try {
+        const result = await exchangeAuthorizationCode(config, code);
+        finish(200, "Zoho Projects MCP is authorized. You can close this window.");
+        resolve(result);
+      } catch (error) {
+        finish(500, `Authorization failed: ${error}`);
+        reject(error);
+      }
+    });
+
+    callbackServer.on("error", reject);
+    callbackServer.listen(Number(redirect.port) || 80, redirect.hostname, () => {
+      console.error("Open this URL in your browser to authorize Zoho Projects MCP:");
+      console.error(buildAuthorizationUrl(config, state));
+    });
+  });
+
+  if (!tokens.refresh_token) {
+    console.error("Warning: Zoho did not return a refresh token; only the access token was saved.");
+  }
+  await persistTokens(tokens);
+  console.error(`Tokens saved to ${process.env.ZOHO_ENV_FILE || ".env"}.`);
+}
@@ -0,0 +1,102 @@
+import { Prompt } from "@modelcontextprotocol/sdk/types.js";
+
+export type PromptSource = "tasks" | "issues" | "phases" | "users";
+
+interface PromptTemplate {
+  sources: PromptSource[];
+  render(args: Record<string, string>, today: string): string;
+}
+
+const projectArguments = [
+  { name: "project_id", description: "Project ID", required: true },
+  { name: "portal_id", description: "Portal ID or name (defaults to the session's default portal)" },
+];
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: "daily_standup",
+    description: "Daily standup summary for a project: progress, plans and blockers per person",
+    arguments: projectArguments,
+  },
+  {
+    name: "sprint_planning",
+    description: "Plan the next sprint from a project's open tasks and team capacity",
+    arguments: [
+      ...projectArguments,
+      { name: "sprint_days", description: "Sprint length in working days (default 10)" },
+      { name: "goal", description: "Sprint goal to plan towards" },
+    ],
+  },
+  {
+    name: "triage_issues",
+    description: "Triage a project's open issues: severity, owner and next step for each",
+    arguments: projectArguments,
+  },
+  {
+    name: "weekly_status_report",
+    description: "Weekly status report for a project, ready to send to stakeholders",
+    arguments: [
+      ...projectArguments,
+      {
+        name: "week_start",
+        description: "First day of the reported week (YYYY-MM-DD, default: 7 days ago)",
+      },
+    ],
+  },
+];
+
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  daily_standup: {
+    sources: ["tasks", "issues", "users"],
+    render: (args, today) =>
+      `Prepare today's (${today}) standup for Zoho Projects project ${args.project_id}.\n\n` +
+      "For each team member, list:\n" +
+      "1. What they recently finished (closed tasks and recently updated work)\n" +
+      "2. What they are working on now (open tasks they own)\n" +
+      `3. Blockers: their tasks past their end date as of ${today}, ` +
+      "and open high-severity issues assigned to them\n\n" +
+      "Finish with a short list of unowned or overdue work that needs attention. " +
+      "Keep each person to a few bullet points.",
+  },
+  sprint_planning: {
+    sources: ["tasks", "phases", "users"],
+    render: (args, today) =>
+      `Plan a ${args.sprint_days || 10}-working-day sprint starting ${today} ` +
+      `for Zoho Projects project ${args.project_id}.\n` +
+      (args.goal ? `Sprint goal: ${args.goal}\n` : "") +
+      "\nThe backlog is every task below that is not closed. From it:\n" +
+      "1. Pick the tasks to commit to, favouring high priority, upcoming milestone deadlines " +
+      "and unblocked work\n" +
+      "2. Assign each picked task to a team member, keeping workloads balanced\n" +
+      "3. List the tasks deliberately left out and why\n" +
+      "4. Call out risks: oversized tasks, missing owners, milestones at risk\n\n" +
+      "Present the plan as a table (task, owner, priority, milestone) followed by the notes.",
+  },
+  triage_issues: {
+    sources: ["issues", "phases", "users"],
+    render: (args) =>
+      `Triage the open issues of Zoho Projects project ${args.project_id}.\n\n` +
+      "For each issue that is still open, propose:\n" +
+      "- severity (critical, major, minor, trivial) with a one-line justification\n" +
+      "- an owner from the team below\n" +
+      "- the milestone it should be fixed in\n" +
+      "- the next step (fix, needs more information, duplicate, won't fix)\n\n" +
+      "Start with issues that have no assignee or severity. " +
+      "Present the result as a table and list any duplicates you suspect.",
+  },
+  weekly_status_report: {
+    sources: ["tasks", "issues", "phases"],
+    render: (args, today) =>
+      `Write the weekly status report for Zoho Projects project ${args.project_id} ` +
+      `covering ${args.week_start || "the last 7 days"} to ${today}.\n\n` +
+      "Include these sections:\n" +
+      "1. Summary: overall status (on track, at risk, off track) in two sentences\n" +
+      "2. Completed this week\n" +
+      "3. In progress and planned for next week\n" +
+      `4. Overdue tasks as of ${today}\n` +
+      "5. Open issues by severity\n" +
+      "6. Milestone progress\n" +
+      "7. Risks and decisions needed\n\n" +
+      "Write for stakeholders outside the team: plain language, no IDs unless needed.",
+  },
+};
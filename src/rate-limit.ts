@@ -0,0 +1,115 @@
+import { metrics } from "./metrics.js";
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// A non-negative number from the environment, or the fallback when unset or malformed
+export function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+export const retryOptions: RetryOptions = {
+  maxRetries: envNumber("ZOHO_MAX_RETRIES", 3),
+  baseDelayMs: envNumber("ZOHO_RETRY_BASE_DELAY_MS", 500),
+  maxDelayMs: envNumber("ZOHO_RETRY_MAX_DELAY_MS", 30000),
+};
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter, unless the server told us how long to wait
+export function backoffDelay(
+  attempt: number,
+  options: RetryOptions = retryOptions,
+  retryAfter: string | null = null
+): number {
+  const serverDelay = parseRetryAfter(retryAfter);
+  const delay =
+    serverDelay !== undefined
+      ? serverDelay
+      : Math.random() * options.baseDelayMs * 2 ** attempt;
+  return Math.round(Math.min(delay, options.maxDelayMs));
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Runs fn over items with at most `limit` calls in flight, keeping results in input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+// Client-side token bucket so all sessions together stay under Zoho's per-minute quota
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private perMinute: number) {
+    this.tokens = perMinute;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.perMinute,
+      this.tokens + ((now - this.lastRefill) * this.perMinute) / 60000
+    );
+    this.lastRefill = now;
+  }
+
+  // Resolves once a request may be sent; callers are served in arrival order
+  take(): Promise<void> {
+    if (this.perMinute <= 0) {
+      return Promise.resolve();
+    }
+
+    const turn = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        metrics.rateLimitHits.inc({ source: "client" });
+      }
+      while (this.tokens < 1) {
+        await sleep(((1 - this.tokens) * 60000) / this.perMinute);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = turn;
+    return turn;
+  }
+}
+
+// Shared by every ZohoProjectsServer instance in the process; 0 disables the limit. Zoho Projects
+// allows 100 requests per two minutes per user, so the default is 50 a minute
+export const apiRateLimiter = new TokenBucket(envNumber("ZOHO_RATE_LIMIT_PER_MINUTE", 50));
@@ -0,0 +1,237 @@
+import { isClosed, normalize, records } from "./entities.js";
+import { pick } from "./formatting.js";
+
+export type ReportFormat = "markdown" | "html";
+
+export interface ReportInput {
+  project: any;
+  tasks: any[];
+  issues: any[];
+  phases: any[];
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  truncated?: string[]; // Sources that hit the page cap, e.g. ["tasks"]
+}
+
+interface ReportSection {
+  title: string;
+  headers: string[];
+  rows: (string | number)[][];
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Zoho returns dates as ISO strings, MM-DD-YYYY strings or epoch milliseconds
+function toDay(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const text = String(value);
+  if (/^\d{12,}$/.test(text)) return new Date(Number(text)).toISOString().slice(0, 10);
+  const usDate = /^(\d{2})-(\d{2})-(\d{4})/.exec(text);
+  if (usDate) return `${usDate[3]}-${usDate[1]}-${usDate[2]}`;
+  const isoDate = /^\d{4}-\d{2}-\d{2}/.exec(text);
+  if (isoDate) return isoDate[0];
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? undefined : new Date(parsed).toISOString().slice(0, 10);
+}
+
+function dayOf(record: any, ...paths: string[]): string | undefined {
+  return paths.map((path) => toDay(pick(record, path))).find((day) => day !== undefined);
+}
+
+function percent(part: number, total: number): string {
+  return total === 0 ? "-" : `${Math.round((part / total) * 100)}%`;
+}
+
+function countBy(keys: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const key of keys) counts.set(key, (counts.get(key) || 0) + 1);
+  return counts;
+}
+
+function buildSections(input: ReportInput): ReportSection[] {
+  const { from, to } = input;
+  const inPeriod = (day?: string) => day !== undefined && day >= from && day <= to;
+
+  const tasks = input.tasks.map((raw) => ({
+    raw,
+    task: normalize("task", raw),
+    closed: isClosed(raw),
+    due: dayOf(raw, "end_date", "end_date_long"),
+  }));
+  const issues = input.issues.map((raw) => ({
+    raw,
+    issue: normalize("issue", raw),
+    closed: isClosed(raw),
+  }));
+  const openTasks = tasks.filter((entry) => !entry.closed);
+  const openIssues = issues.filter((entry) => !entry.closed);
+  const overdue = openTasks
+    .filter((entry) => entry.due !== undefined && entry.due < to)
+    .sort((a, b) => a.due!.localeCompare(b.due!));
+
+  const closedTasks = tasks.length - openTasks.length;
+  const summary: ReportSection = {
+    title: "Summary",
+    headers: ["Metric", "Value"],
+    rows: [
+      ["Tasks completed", `${closedTasks} / ${tasks.length} (${percent(closedTasks, tasks.length)})`],
+      ["Open tasks", openTasks.length],
+      ["Overdue tasks", overdue.length],
+      ["Open issues", openIssues.length],
+      [
+        "Tasks created in period",
+        tasks.filter((entry) => inPeriod(dayOf(entry.raw, "created_time", "created_time_long")))
+          .length,
+      ],
+      [
+        "Tasks closed in period",
+        tasks.filter(
+          (entry) =>
+            entry.closed &&
+            inPeriod(dayOf(entry.raw, "completed_time", "completed_on", "last_modified_time"))
+        ).length,
+      ],
+      [
+        "Issues reported in period",
+        issues.filter((entry) => inPeriod(dayOf(entry.raw, "created_time", "reported_time")))
+          .length,
+      ],
+    ],
+  };
+
+  const overdueSection: ReportSection = {
+    title: "Overdue Tasks",
+    headers: ["Task", "Owners", "Due", "Days overdue"],
+    rows: overdue.map(({ task, due }) => [
+      task.name,
+      (task.owners || []).join(", ") || "Unassigned",
+      due!,
+      Math.round((Date.parse(to) - Date.parse(due!)) / DAY_MS),
+    ]),
+  };
+
+  const severities = countBy(openIssues.map(({ issue }) => issue.severity || "None"));
+  const severitySection: ReportSection = {
+    title: "Open Issues by Severity",
+    headers: ["Severity", "Open issues"],
+    rows: [...severities].sort((a, b) => b[1] - a[1]),
+  };
+
+  const milestoneSection: ReportSection = {
+    title: "Milestone Progress",
+    headers: ["Milestone", "Status", "Due", "Tasks closed", "Progress"],
+    rows: input.phases.map((raw) => {
+      const phase = normalize("phase", raw);
+      const phaseTasks = tasks.filter((entry) => entry.task.milestone_id === phase.id);
+      const done = phaseTasks.filter((entry) => entry.closed).length;
+      return [
+        phase.name,
+        phase.status || "",
+        dayOf(raw, "end_date") || "",
+        `${done} / ${phaseTasks.length}`,
+        percent(done, phaseTasks.length),
+      ];
+    }),
+  };
+
+  // Workload counts open work only; a task with several owners counts for each of them
+  const workload = new Map<string, { open: number; overdue: number; issues: number }>();
+  const load = (user: string) => {
+    if (!workload.has(user)) workload.set(user, { open: 0, overdue: 0, issues: 0 });
+    return workload.get(user)!;
+  };
+  for (const entry of openTasks) {
+    for (const owner of entry.task.owners?.length ? entry.task.owners : ["Unassigned"]) {
+      load(owner).open += 1;
+      if (overdue.includes(entry)) load(owner).overdue += 1;
+    }
+  }
+  for (const { issue } of openIssues) {
+    load(issue.assignee || "Unassigned").issues += 1;
+  }
+  const workloadSection: ReportSection = {
+    title: "Workload",
+    headers: ["User", "Open tasks", "Overdue tasks", "Open issues"],
+    rows: [...workload]
+      .sort((a, b) => b[1].open - a[1].open)
+      .map(([user, counts]) => [user, counts.open, counts.overdue, counts.issues]),
+  };
+
+  return [summary, overdueSection, severitySection, milestoneSection, workloadSection];
+}
+
+function markdownCell(value: string | number): string {
+  return String(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function renderMarkdown(
+  title: string,
+  period: string,
+  sections: ReportSection[],
+  warning?: string
+): string {
+  const body = sections.map((section) => {
+    if (section.rows.length === 0) {
+      return `## ${section.title}\n\nNone.`;
+    }
+    return [
+      `## ${section.title}`,
+      "",
+      `| ${section.headers.join(" | ")} |`,
+      `| ${section.headers.map(() => "---").join(" | ")} |`,
+      ...section.rows.map((row) => `| ${row.map(markdownCell).join(" | ")} |`),
+    ].join("\n");
+  });
+  const notice = warning ? [`> **Warning:** ${warning}`] : [];
+  return [`# ${title}`, `_${period}_`, ...notice, ...body].join("\n\n");
+}
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderHtml(
+  title: string,
+  period: string,
+  sections: ReportSection[],
+  warning?: string
+): string {
+  const body = sections.map((section) => {
+    if (section.rows.length === 0) {
+      return `<h2>${escapeHtml(section.title)}</h2>\n<p>None.</p>`;
+    }
+    const head = section.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("");
+    const rows = section.rows
+      .map((row) => `<tr>${row.map((value) => `<td>${escapeHtml(value)}</td>`).join("")}</tr>`)
+      .join("\n");
+    return `<h2>${escapeHtml(section.title)}</h2>\n<table>\n<tr>${head}</tr>\n${rows}\n</table>`;
+  });
+  return [
+    "<!DOCTYPE html>",
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head><body>`,
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p><em>${escapeHtml(period)}</em></p>`,
+    ...(warning ? [`<p><strong>Warning:</strong> ${escapeHtml(warning)}</p>`] : []),
+    ...body,
+    "</body></html>",
+  ].join("\n");
+}
+
+export function renderProjectReport(input: ReportInput, format: ReportFormat): string {
+  const project = normalize("project", records(input.project)[0] || {});
+  const title = `Status Report: ${project.name || `Project ${project.id}`}`;
+  const period = `${input.from} to ${input.to}`;
+  const sections = buildSections(input);
+  // Figures computed from a partial list would look complete, so say which lists were cut short
+  const warning = input.truncated?.length
+    ? `Not all ${input.truncated.join(" and ")} could be read before the page limit, so the ` +
+      "figures below are incomplete."
+    : undefined;
+  return format === "html"
+    ? renderHtml(title, period, sections, warning)
+    : renderMarkdown(title, period, sections, warning);
+}
@@ -0,0 +1,60 @@
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+
+export type ResourceKind = "project" | "task" | "issue";
+
+export interface ResourceRef {
+  portalId: string;
+  projectId: string;
+  kind: ResourceKind;
+  id: string;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "zoho://portal/{portal_id}/project/{project_id}",
+    name: "Zoho project",
+    description: "A Zoho Projects project",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "zoho://portal/{portal_id}/project/{project_id}/task/{task_id}",
+    name: "Zoho task",
+    description: "A task in a Zoho Projects project",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "zoho://portal/{portal_id}/project/{project_id}/issue/{issue_id}",
+    name: "Zoho issue",
+    description: "An issue (bug) in a Zoho Projects project",
+    mimeType: "application/json",
+  },
+];
+
+const URI_PATTERN = /^zoho:\/\/portal\/(\d+)\/project\/(\d+)(?:\/(task|issue)\/(\d+))?$/;
+
+export function resourceUri(ref: ResourceRef): string {
+  const projectUri = `zoho://portal/${ref.portalId}/project/${ref.projectId}`;
+  return ref.kind === "project" ? projectUri : `${projectUri}/${ref.kind}/${ref.id}`;
+}
+
+export function parseResourceUri(uri: string): ResourceRef | undefined {
+  const match = URI_PATTERN.exec(uri);
+  if (!match) return undefined;
+  const [, portalId, projectId, kind, id] = match;
+  return kind
+    ? { portalId, projectId, kind: kind as ResourceKind, id }
+    : { portalId, projectId, kind: "project", id: projectId };
+}
+
+// Resources a mutating tool call may have changed, judged by the IDs it was given
+export function affectedResourceUris(portalId: string, params: any): string[] {
+  const projectId = params?.project_id;
+  if (!projectId) return [];
+
+  const uris = [resourceUri({ portalId, projectId, kind: "project", id: projectId })];
+  for (const kind of ["task", "issue"] as const) {
+    const id = params[`${kind}_id`];
+    if (id) uris.push(resourceUri({ portalId, projectId, kind, id }));
+  }
+  return uris;
+}
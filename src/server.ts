@@ -0,0 +1,3418 @@
+import { Server } from "@modelcontextprotocol/sdk/server";
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ErrorCode,
+  McpError,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomUUID } from "node:crypto";
+import { CachedToken, tokenManager, TokenManager } from "./token-store.js";
+import { parseZohoError, ZohoApiError } from "./errors.js";
+import { EntityType, formatResponse, ResponseFormat } from "./formatting.js";
+import { isClosed, outputSchemaFor, records, structuredContentFor } from "./entities.js";
+import {
+  affectedResourceUris,
+  parseResourceUri,
+  RESOURCE_TEMPLATES,
+  resourceUri,
+} from "./resources.js";
+import { PROMPT_TEMPLATES, PROMPTS, PromptSource } from "./prompts.js";
+import { renderProjectReport } from "./report.js";
+import { auditLog, AuditOutcome, responseIds } from "./audit.js";
+import { policyFromEnv, ToolPolicy, toolBlockReason } from "./tool-policy.js";
+import { metrics } from "./metrics.js";
+import {
+  apiRateLimiter,
+  backoffDelay,
+  envNumber,
+  isRetryableStatus,
+  mapWithConcurrency,
+  retryOptions,
+  sleep,
+} from "./rate-limit.js";
+
+export interface ZohoConfig {
+  accessToken: string;
+  portalId: string;
+  apiDomain?: string;
+  refreshToken?: string;
+  clientId?: string;
+  clientSecret?: string;
+  accountsDomain?: string;
+}
+
+interface PaginationOptions {
+  page?: number;
+  perPage?: number;
+  allPages?: boolean;
+  maxItems?: number;
+}
+
+interface RequestContext {
+  portalId: string;
+  sessionId?: string;
+  format?: ResponseFormat;
+  fields?: string[];
+  // Raw Zoho payload of the call, normalized into structuredContent afterwards
+  result?: any;
+  // Set for dry runs: mutating requests are collected here instead of being sent
+  plannedRequests?: PlannedRequest[];
+}
+
+interface PlannedRequest {
+  method: string;
+  endpoint: string;
+  body?: any;
+}
+
+interface TaskFilters {
+  status?: string;
+  owner_zpuid?: string;
+  priority?: string;
+  created_after?: string;
+  created_before?: string;
+  due_after?: string;
+  due_before?: string;
+  milestone_id?: string;
+  view_id?: string;
+  sort_by?: string;
+  sort_order?: "asc" | "desc";
+}
+
+// Hard stop for all_pages walks so a misbehaving cursor cannot loop forever
+const MAX_PAGES = 100;
+
+// Bulk task tools: items per call and Zoho requests in flight at once
+const BULK_MAX_ITEMS = 100;
+const BULK_MAX_CONCURRENCY = 10;
+
+// ZOHO_DRY_RUN previews every mutating call; ZOHO_REQUIRE_CONFIRMATION makes deletes two-step
+const DRY_RUN = process.env.ZOHO_DRY_RUN === "true";
+const REQUIRE_CONFIRMATION = process.env.ZOHO_REQUIRE_CONFIRMATION === "true";
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// ZOHO_AUDIT_LOG_ALL_SESSIONS lets sessions on the shared credentials read each other's audit entries
+const AUDIT_ALL_SESSIONS = process.env.ZOHO_AUDIT_LOG_ALL_SESSIONS === "true";
+
+// Records per list embedded in a prompt, to keep prompts within a model's context
+const PROMPT_MAX_ITEMS = 200;
+
+// How many projects resources/list offers, most recently modified first
+const RECENT_PROJECTS = 20;
+
+// How often subscribed resources are re-read to detect changes made outside this server; 0 disables
+const RESOURCE_POLL_MS = envNumber("ZOHO_RESOURCE_POLL_SECONDS", 60) * 1000;
+
+const DATE_PATTERN = "^\\d{4}-\\d{2}-\\d{2}$";
+
+// DATE_PATTERN only checks the shape; this rejects days such as 2025-13-40 or 2025-02-30
+function isCalendarDate(value: string): boolean {
+  const day = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(day.getTime()) && day.toISOString().slice(0, 10) === value;
+}
+
+// Minimal JSON Schema check covering the keywords our tool schemas use
+function validateArguments(schema: any, value: any, path: string = "arguments"): string[] {
+  const errors: string[] = [];
+  if (value === undefined || value === null || !schema) return errors;
+
+  const type = schema.type;
+  if (type === "object") {
+    if (typeof value !== "object" || Array.isArray(value)) {
+      return [`${path} must be an object`];
+    }
+    for (const field of schema.required || []) {
+      if (value[field] === undefined || value[field] === null || value[field] === "") {
+        errors.push(`${path}.${field} is required`);
+      }
+    }
+    for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+      errors.push(...validateArguments(fieldSchema, value[field], `${path}.${field}`));
+    }
+    return errors;
+  }
+  if (type === "array") {
+    if (!Array.isArray(value)) return [`${path} must be an array`];
+    value.forEach((item, index) => {
+      errors.push(...validateArguments(schema.items, item, `${path}[${index}]`));
+    });
+    return errors;
+  }
+  if (type === "number" && (typeof value !== "number" || Number.isNaN(value))) {
+    return [`${path} must be a number`];
+  }
+  if (typeof schema.minimum === "number" && value < schema.minimum) {
+    return [`${path} must be at least ${schema.minimum}`];
+  }
+  if (type === "boolean" && typeof value !== "boolean") {
+    return [`${path} must be a boolean`];
+  }
+  if (type === "string") {
+    if (typeof value !== "string") return [`${path} must be a string`];
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} must match ${schema.pattern}`);
+    } else if (schema.pattern === DATE_PATTERN && !isCalendarDate(value)) {
+      errors.push(`${path} must be a real calendar date (YYYY-MM-DD)`);
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(", ")}`);
+  }
+  return errors;
+}
+
+// The YYYY-MM-DD date `days` days from `date`
+function shiftDay(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+// Translates task filters into Zoho's filter criteria and sort_by query parameters
+function buildTaskFilterQuery(filters: TaskFilters): string {
+  for (const [from, to] of [
+    ["created_after", "created_before"],
+    ["due_after", "due_before"],
+  ] as const) {
+    if (filters[from] && filters[to] && filters[from]! > filters[to]!) {
+      throw new McpError(ErrorCode.InvalidParams, `${from} must not be later than ${to}`);
+    }
+  }
+
+  const criteria: { field_name: string; criteria_condition: string; value: string[] }[] = [];
+  // Ranges include both ends: "between" already does, while Zoho's "after" and "before"
+  // exclude the given day, so single bounds are moved out by one day
+  const addRange = (field: string, after?: string, before?: string) => {
+    if (after && before) {
+      criteria.push({ field_name: field, criteria_condition: "between", value: [after, before] });
+    } else if (after) {
+      criteria.push({ field_name: field, criteria_condition: "after", value: [shiftDay(after, -1)] });
+    } else if (before) {
+      criteria.push({ field_name: field, criteria_condition: "before", value: [shiftDay(before, 1)] });
+    }
+  };
+
+  if (filters.status) {
+    criteria.push({ field_name: "status", criteria_condition: "is", value: [filters.status] });
+  }
+  if (filters.owner_zpuid) {
+    criteria.push({ field_name: "owner", criteria_condition: "is", value: [filters.owner_zpuid] });
+  }
+  if (filters.priority) {
+    criteria.push({ field_name: "priority", criteria_condition: "is", value: [filters.priority] });
+  }
+  if (filters.milestone_id) {
+    criteria.push({
+      field_name: "milestone",
+      criteria_condition: "is",
+      value: [filters.milestone_id],
+    });
+  }
+  addRange("created_time", filters.created_after, filters.created_before);
+  addRange("end_date", filters.due_after, filters.due_before);
+
+  const query = new URLSearchParams();
+  if (criteria.length > 0) {
+    query.set(
+      "filter",
+      JSON.stringify({
+        criteria,
+        pattern: criteria.map((_, index) => index + 1).join(" AND "),
+      })
+    );
+  }
+  // A saved custom view applies its own criteria, combined with the ones above
+  if (filters.view_id) {
+    query.set("view_id", filters.view_id);
+  }
+  if (filters.sort_by) {
+    const order = filters.sort_order === "desc" ? "DESC" : "ASC";
+    query.set("sort_by", `${order}(${filters.sort_by})`);
+  }
+  return query.toString();
+}
+
+// Filter criteria for issues whose affected or release milestone is the given phase
+function issuePhaseFilterQuery(phaseId: string): string {
+  const criteria = ["affected_milestone", "release_milestone"].map((field) => ({
+    field_name: field,
+    criteria_condition: "is",
+    value: [phaseId],
+  }));
+  return new URLSearchParams({
+    filter: JSON.stringify({ criteria, pattern: "1 OR 2" }),
+  }).toString();
+}
+
+// Zoho wraps list payloads in a resource-named key (projects, tasks, milestones, ...)
+function extractList(data: any): any[] {
+  const listKey = Object.keys(data || {}).find((key) => Array.isArray(data[key]));
+  return listKey ? data[listKey] : [];
+}
+
+function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+// Read tools only fetch data; every other tool changes something in Zoho
+function isReadTool(name: string): boolean {
+  return (
+    name.startsWith("list_") ||
+    name.startsWith("get_") ||
+    name === "search" ||
+    name === "generate_project_report"
+  );
+}
+
+// Tools that change Zoho data; set_default_portal only changes the session
+function isMutatingTool(name: string): boolean {
+  return !isReadTool(name) && name !== "set_default_portal";
+}
+
+function isDestructiveTool(name: string): boolean {
+  return /^(bulk_)?delete_/.test(name);
+}
+
+// Bulk tools report failed items in their result instead of throwing
+function resultOutcome(result: any): { outcome: AuditOutcome; error?: string } {
+  if (!Array.isArray(result?.failed_indexes) || result.failed === 0) {
+    return { outcome: "success" };
+  }
+  return {
+    outcome: result.succeeded > 0 ? "partial" : "error",
+    error: `${result.failed} of ${result.succeeded + result.failed} items failed`,
+  };
+}
+
+// Zoho reports logged time either as "HH:MM" strings or as decimal hours
+function parseHours(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return 0;
+  const match = value.match(/^(\d+):(\d{1,2})$/);
+  if (match) return Number(match[1]) + Number(match[2]) / 60;
+  const hours = Number(value);
+  return Number.isFinite(hours) ? hours : 0;
+}
+
+function summarizeTimelogs(data: any) {
+  const logs = extractList(data);
+  const byUser: Record<string, number> = {};
+  const byDay: Record<string, number> = {};
+  let billable = 0;
+  let total = 0;
+
+  for (const log of logs) {
+    const hours = parseHours(log.hours ?? log.log_hour ?? log.total_hours);
+    const user = log.owner?.name || log.owner_name || log.added_by?.name || "unknown";
+    const day = log.date || log.log_date || "unknown";
+    byUser[user] = (byUser[user] || 0) + hours;
+    byDay[day] = (byDay[day] || 0) + hours;
+    if (log.bill_status === "billable" || log.billing_type === "billable") {
+      billable += hours;
+    }
+    total += hours;
+  }
+
+  const round = (hours: number) => Math.round(hours * 100) / 100;
+  const roundAll = (totals: Record<string, number>) =>
+    Object.fromEntries(Object.entries(totals).map(([key, hours]) => [key, round(hours)]));
+
+  return {
+    total_hours: round(total),
+    billable_hours: round(billable),
+    non_billable_hours: round(total - billable),
+    by_user: roundAll(byUser),
+    by_day: roundAll(byDay),
+  };
+}
+
+export class ZohoProjectsServer {
+  private server: Server;
+  private config: ZohoConfig;
+  private baseUrl: string = "https://projectsapi.zoho.com/api/v3";
+  private tokenExpiresAt: number = 0; // Unix timestamp in milliseconds
+  private tokenCacheChecked: boolean = false;
+  private requestContext = new AsyncLocalStorage<RequestContext>();
+  private portals?: any[]; // Cached /portals listing used to resolve portal names
+  private ownCredentials: boolean; // Whether the session brought its own Zoho credentials
+  private toolPolicies: ToolPolicy[];
+  private confirmations = new Map<string, { fingerprint: string; expiresAt: number }>();
+  private subscriptions = new Map<string, string | undefined>(); // URI -> hash of last content
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(sessionConfig?: Partial<ZohoConfig>, sessionPolicy?: ToolPolicy) {
+    this.server = new Server(
+      {
+        name: "zoho-projects-mcp-server",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: { subscribe: true },
+          prompts: {},
+        },
+      }
+    );
+    this.server.onclose = () => this.stopPolling();
+
+    // Load configuration from environment variables
+    this.config = {
+      accessToken: process.env.ZOHO_ACCESS_TOKEN || "",
+      portalId: process.env.ZOHO_PORTAL_ID || "",
+      apiDomain: process.env.ZOHO_API_DOMAIN || "https://projectsapi.zoho.com",
+      refreshToken: process.env.ZOHO_REFRESH_TOKEN || "",
+      clientId: process.env.ZOHO_CLIENT_ID || "",
+      clientSecret: process.env.ZOHO_CLIENT_SECRET || "",
+      accountsDomain: process.env.ZOHO_ACCOUNTS_DOMAIN || "https://accounts.zoho.com",
+    };
+
+    this.ownCredentials = Boolean(sessionConfig);
+    this.toolPolicies = sessionPolicy ? [policyFromEnv(), sessionPolicy] : [policyFromEnv()];
+
+    // Session credentials replace the shared tokens entirely so a session can never
+    // fall back to (or refresh into) the deployment's own Zoho account
+    if (sessionConfig) {
+      this.config = {
+        ...this.config,
+        accessToken: "",
+        refreshToken: "",
+        ...sessionConfig,
+      };
+    }
+
+    if (this.config.apiDomain) {
+      this.baseUrl = `${this.config.apiDomain}/api/v3`;
+    }
+
+    // Set initial token expiration (assume current token expires in 1 hour if not known);
+    // with only a refresh token, refresh on the first request
+    this.tokenExpiresAt = this.config.accessToken ? Date.now() + 3600 * 1000 : 0;
+
+    this.setupHandlers();
+  }
+
+  // Portal for the tool call in flight, falling back to the session default
+  private get portalId(): string {
+    const portalId = this.requestContext.getStore()?.portalId || this.config.portalId;
+    if (!portalId) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "No portal selected. Pass portal_id, call set_default_portal, or set ZOHO_PORTAL_ID."
+      );
+    }
+    return portalId;
+  }
+
+  private async resolvePortalId(portal?: string): Promise<string> {
+    const ref = String(portal || this.config.portalId || "").trim();
+    if (!ref || /^\d+$/.test(ref)) {
+      return ref;
+    }
+
+    if (!this.portals) {
+      const data = await this.makeRequest("/portals");
+      this.portals = Array.isArray(data) ? data : extractList(data);
+    }
+    const wanted = ref.toLowerCase();
+    const match = this.portals.find((candidate) =>
+      [candidate.name, candidate.portal_name, candidate.id_string].some(
+        (value) => String(value || "").toLowerCase() === wanted
+      )
+    );
+
+    if (!match) {
+      const available = this.portals
+        .map((candidate) => `${candidate.name || candidate.portal_name} (${candidate.id})`)
+        .join(", ");
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown portal "${ref}". Available portals: ${available || "none"}`
+      );
+    }
+    return String(match.id);
+  }
+
+  private tokenKey(): string {
+    return TokenManager.keyFor(this.config.clientId || "", this.config.refreshToken || "");
+  }
+
+  // Picks up a still-valid token that another session or an earlier run already obtained
+  private async loadCachedToken(): Promise<void> {
+    this.tokenCacheChecked = true;
+    if (!this.config.refreshToken) {
+      return;
+    }
+
+    const cached = await tokenManager.get(this.tokenKey());
+    if (cached) {
+      this.config.accessToken = cached.accessToken;
+      this.tokenExpiresAt = cached.expiresAt;
+    }
+  }
+
+  private async refreshAccessToken(): Promise<void> {
+    if (!this.config.refreshToken || !this.config.clientId || !this.config.clientSecret) {
+      console.error("Cannot refresh token: missing refresh token, client ID, or client secret");
+      return;
+    }
+
+    try {
+      // Refreshes are coalesced and cached process-wide, keyed by these credentials
+      const token = await tokenManager.refresh(
+        this.tokenKey(),
+        this.config.accessToken,
+        async () => {
+          try {
+            const fresh = await this.requestAccessToken();
+            metrics.tokenRefreshes.inc({ result: "success" });
+            return fresh;
+          } catch (error) {
+            metrics.tokenRefreshes.inc({ result: "failure" });
+            throw error;
+          }
+        }
+      );
+
+      // Update access token and expiration time
+      this.config.accessToken = token.accessToken;
+      this.tokenExpiresAt = token.expiresAt;
+    } catch (error) {
+      console.error(`Error refreshing access token: ${error}`);
+      throw new ZohoApiError(
+        "auth",
+        401,
+        `Failed to refresh access token: ${error}. ` +
+          "Re-authorize via /oauth/start or `npm run oauth`."
+      );
+    }
+  }
+
+  private async requestAccessToken(): Promise<CachedToken> {
+    const params = new URLSearchParams({
+      refresh_token: this.config.refreshToken || "",
+      client_id: this.config.clientId || "",
+      client_secret: this.config.clientSecret || "",
+      grant_type: "refresh_token",
+    });
+
+    const response = await fetch(`${this.config.accountsDomain}/oauth/v2/token`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params.toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to refresh token: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json() as {
+      access_token: string;
+      expires_in: number;
+      error?: string;
+    };
+
+    // Zoho reports an invalid refresh token with 200 and an error field
+    if (data.error || !data.access_token) {
+      throw new Error(`Failed to refresh token: ${data.error || "no access token returned"}`);
+    }
+
+    console.error(`Access token refreshed successfully. Expires in ${data.expires_in} seconds.`);
+
+    return {
+      accessToken: data.access_token,
+      // Set expiration to 5 minutes before actual expiry for safety margin
+      expiresAt: Date.now() + (data.expires_in - 300) * 1000,
+    };
+  }
+
+  private async makeRequest(
+    endpoint: string,
+    method: string = "GET",
+    body?: any,
+    isRetry: boolean = false
+  ): Promise<any> {
+    // Dry runs still read from Zoho but only record what they would change
+    const plannedRequests = this.requestContext.getStore()?.plannedRequests;
+    if (plannedRequests && method !== "GET") {
+      plannedRequests.push({ method, endpoint, ...(body !== undefined && { body }) });
+      return {};
+    }
+
+    if (!this.tokenCacheChecked) {
+      await this.loadCachedToken();
+    }
+
+    // Check if token needs refresh (5 minutes before expiry)
+    if (Date.now() >= this.tokenExpiresAt) {
+      await this.refreshAccessToken();
+    }
+
+    if (!this.config.accessToken) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "Zoho access token not configured. Set ZOHO_ACCESS_TOKEN environment variable."
+      );
+    }
+
+    const url = `${this.baseUrl}${endpoint}`;
+    const headers: Record<string, string> = {
+      Authorization: `Zoho-oauthtoken ${this.config.accessToken}`,
+      "Content-Type": "application/json",
+    };
+
+    const options: {
+      method: string;
+      headers: Record<string, string>;
+      body?: string;
+    } = {
+      method,
+      headers,
+    };
+
+    if (body && (method === "POST" || method === "PATCH" || method === "PUT")) {
+      options.body = JSON.stringify(body);
+    }
+
+    const response = await this.fetchWithRetry(url, options);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+
+      // If 401 and we have refresh credentials and haven't retried yet, try refresh
+      if (response.status === 401 && !isRetry &&
+          this.config.refreshToken && this.config.clientId && this.config.clientSecret) {
+        console.error("Received 401 error, attempting token refresh...");
+        try {
+          await this.refreshAccessToken();
+          // Retry the request once with new token
+          return await this.makeRequest(endpoint, method, body, true);
+        } catch (refreshError) {
+          console.error("Token refresh failed:", refreshError);
+          // Fall through to throw original error
+        }
+      }
+
+      metrics.zohoErrors.inc({ status: String(response.status) });
+      throw parseZohoError(response.status, errorText);
+    }
+
+    // Zoho answers 204 with an empty body when a list has no (more) records
+    if (response.status === 204) {
+      return {};
+    }
+
+    return response.json();
+  }
+
+  // Retries 429s, and for requests that are safe to repeat also 5xx and network errors,
+  // with exponential backoff; every attempt goes through the process-wide rate limiter
+  private async fetchWithRetry(
+    url: string,
+    options: { method: string; headers: Record<string, string>; body?: string }
+  ): Promise<Response> {
+    // A POST that failed mid-flight may already have created the record
+    const repeatable = options.method !== "POST";
+
+    for (let attempt = 0; ; attempt++) {
+      await apiRateLimiter.take();
+
+      let response: Response;
+      try {
+        response = await fetch(url, options);
+      } catch (error) {
+        if (!repeatable || attempt >= retryOptions.maxRetries) {
+          metrics.zohoErrors.inc({ status: "network" });
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Zoho API request failed: ${error}`
+          );
+        }
+        const delay = backoffDelay(attempt);
+        console.error(`Zoho API request failed (${error}), retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+
+      if (response.status === 429) {
+        metrics.rateLimitHits.inc({ source: "zoho" });
+      }
+      const retryable =
+        response.status === 429 || (repeatable && isRetryableStatus(response.status));
+      if (!retryable || attempt >= retryOptions.maxRetries) {
+        return response;
+      }
+
+      const delay = backoffDelay(attempt, retryOptions, response.headers.get("retry-after"));
+      console.error(
+        `Zoho API returned ${response.status}, retrying in ${delay}ms ` +
+          `(attempt ${attempt + 1}/${retryOptions.maxRetries})`
+      );
+      await response.body?.cancel();
+      await sleep(delay);
+    }
+  }
+
+  // listKey is the resource key merged pages are returned under, e.g. "tasks", so an
+  // empty first page still yields a correctly keyed result
+  private async makePaginatedRequest(
+    endpoint: string,
+    listKey: string,
+    options: PaginationOptions = {}
+  ): Promise<any> {
+    const separator = endpoint.includes("?") ? "&" : "?";
+    const startPage = options.page || 1;
+
+    if (!options.allPages) {
+      const perPage = options.perPage || 10;
+      return this.makeRequest(
+        `${endpoint}${separator}page=${startPage}&per_page=${perPage}`
+      );
+    }
+
+    // Walk Zoho's page cursor until it reports no further pages or the cap is hit
+    const perPage = options.perPage || 100;
+    const maxItems = options.maxItems;
+    let items: any[] = [];
+    let pagesFetched = 0;
+    let hasMore = true;
+    let page = startPage;
+
+    while (hasMore && pagesFetched < MAX_PAGES) {
+      const data = await this.makeRequest(
+        `${endpoint}${separator}page=${page}&per_page=${perPage}`
+      );
+      pagesFetched++;
+
+      const pageItems: any[] = Array.isArray(data?.[listKey]) ? data[listKey] : extractList(data);
+      items = items.concat(pageItems);
+
+      hasMore =
+        data?.page_info?.has_next_page !== undefined
+          ? Boolean(data.page_info.has_next_page)
+          : pageItems.length >= perPage;
+
+      if (maxItems !== undefined && items.length >= maxItems) {
+        break;
+      }
+      page++;
+    }
+
+    let truncated = hasMore;
+    if (maxItems !== undefined && items.length > maxItems) {
+      items = items.slice(0, maxItems);
+      truncated = true;
+    }
+
+    return {
+      [listKey]: items,
+      pagination: {
+        start_page: startPage,
+        per_page: perPage,
+        pages_fetched: pagesFetched,
+        items_returned: items.length,
+        truncated,
+      },
+    };
+  }
+
+  private setupHandlers() {
+    // Tool definitions, shared by the listing and by argument validation
+    const tools: Tool[] = [
+      // Portal operations
+      {
+        name: "list_portals",
+        description: "Retrieve all Zoho Projects portals",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "get_portal",
+        description: "Get details of a specific portal",
+        inputSchema: {
+          type: "object",
+          properties: {
+            portal_id: { type: "string", description: "Portal ID or name" },
+          },
+          required: ["portal_id"],
+        },
+      },
+      {
+        name: "set_default_portal",
+        description: "Set the portal used by this session when portal_id is omitted",
+        inputSchema: {
+          type: "object",
+          properties: {
+            portal: { type: "string", description: "Portal ID or name" },
+          },
+          required: ["portal"],
+        },
+      },
+
+      // Project operations
+      {
+        name: "list_projects",
+        description: "List all projects in a portal",
+        inputSchema: {
+          type: "object",
+          properties: {
+            page: { type: "number", description: "Page number", minimum: 1, default: 1 },
+            per_page: {
+              type: "number",
+              description: "Items per page",
+              minimum: 1,
+              default: 10,
+            },
+            all_pages: {
+              type: "boolean",
+              description: "Fetch every page and merge the results",
+              default: false,
+            },
+            max_items: {
+              type: "number",
+              description: "Maximum number of items to return when all_pages is set",
+              minimum: 1,
+            },
+          },
+        },
+      },
+      {
+        name: "get_project",
+        description: "Get details of a specific project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+          },
+          required: ["project_id"],
+        },
+      },
+      {
+        name: "create_project",
+        description: "Create a new project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Project name" },
+            description: { type: "string", description: "Project description" },
+            start_date: {
+              type: "string",
+              description: "Start date (YYYY-MM-DD)",
+            },
+            end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
+            is_public: {
+              type: "boolean",
+              description: "Is project public",
+              default: false,
+            },
+          },
+          required: ["name"],
+        },
+      },
+      {
+        name: "update_project",
+        description: "Update an existing project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            name: { type: "string", description: "Project name" },
+            description: { type: "string", description: "Project description" },
+            start_date: {
+              type: "string",
+              description: "Start date (YYYY-MM-DD)",
+            },
+            end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
+            status: {
+              type: "string",
+              description: "Project status",
+              enum: ["active", "template", "archived"],
+            },
+          },
+          required: ["project_id"],
+        },
+      },
+      {
+        name: "delete_project",
+        description: "Delete a project (moves to trash)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+          },
+          required: ["project_id"],
+        },
+      },
+
+      // Task operations
+      {
+        name: "list_tasks",
+        description: "List tasks from a project or portal",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: {
+              type: "string",
+              description: "Project ID (optional for portal-level)",
+            },
+            tasklist_id: {
+              type: "string",
+              description: "Only list tasks in this task list (requires project_id)",
+            },
+            status: {
+              type: "string",
+              description: "Task status name (e.g. open, closed, or a custom status)",
+            },
+            owner_zpuid: {
+              type: "string",
+              description: "Only tasks owned by this user ZPUID",
+            },
+            priority: {
+              type: "string",
+              description: "Task priority",
+              enum: ["none", "low", "medium", "high"],
+            },
+            created_after: {
+              type: "string",
+              description: "Created on or after this date (YYYY-MM-DD)",
+              pattern: DATE_PATTERN,
+            },
+            created_before: {
+              type: "string",
+              description: "Created on or before this date (YYYY-MM-DD)",
+              pattern: DATE_PATTERN,
+            },
+            due_after: {
+              type: "string",
+              description: "Due on or after this date (YYYY-MM-DD)",
+              pattern: DATE_PATTERN,
+            },
+            due_before: {
+              type: "string",
+              description: "Due on or before this date (YYYY-MM-DD)",
+              pattern: DATE_PATTERN,
+            },
+            milestone_id: {
+              type: "string",
+              description: "Only tasks in this phase/milestone",
+            },
+            view_id: {
+              type: "string",
+              description: "Only tasks matching this saved custom view (view ID from Zoho Projects)",
+            },
+            sort_by: {
+              type: "string",
+              description: "Field to sort by",
+              enum: [
+                "created_time",
+                "last_modified_time",
+                "start_date",
+                "end_date",
+                "priority",
+                "name",
+              ],
+            },
+            sort_order: {
+              type: "string",
+              description: "Sort order",
+              enum: ["asc", "desc"],
+              default: "asc",
+            },
+            page: { type: "number", description: "Page number", minimum: 1, default: 1 },
+            per_page: {
+              type: "number",
+              description: "Items per page",
+              minimum: 1,
+              default: 10,
+            },
+            all_pages: {
+              type: "boolean",
+              description: "Fetch every page and merge the results",
+              default: false,
+            },
+            max_items: {
+              type: "number",
+              description: "Maximum number of items to return when all_pages is set",
+              minimum: 1,
+            },
+          },
+        },
+      },
+      {
+        name: "get_task",
+        description: "Get details of a specific task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Task ID" },
+          },
+          required: ["project_id", "task_id"],
+        },
+      },
+      {
+        name: "create_task",
+        description: "Create a new task in a project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            name: { type: "string", description: "Task name" },
+            description: { type: "string", description: "Task description" },
+            priority: {
+              type: "string",
+              description: "Task priority",
+              enum: ["none", "low", "medium", "high"],
+            },
+            start_date: {
+              type: "string",
+              description: "Start date (YYYY-MM-DD)",
+            },
+            end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
+            assignee_zpuid: {
+              type: "string",
+              description: "Assignee user ZPUID",
+            },
+            tasklist_id: {
+              type: "string",
+              description: "Task list to create the task in",
+            },
+          },
+          required: ["project_id", "name"],
+        },
+      },
+      {
+        name: "update_task",
+        description: "Update a task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Task ID" },
+            name: { type: "string", description: "Task name" },
+            description: { type: "string", description: "Task description" },
+            priority: {
+              type: "string",
+              description: "Task priority",
+              enum: ["none", "low", "medium", "high"],
+            },
+            start_date: {
+              type: "string",
+              description: "Start date (YYYY-MM-DD)",
+            },
+            end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
+            tasklist_id: {
+              type: "string",
+              description: "Task list to move the task to",
+            },
+          },
+          required: ["project_id", "task_id"],
+        },
+      },
+      {
+        name: "delete_task",
+        description: "Delete a task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Task ID" },
+          },
+          required: ["project_id", "task_id"],
+        },
+      },
+
+      // Bulk task operations
+      {
+        name: "bulk_create_tasks",
+        description:
+          "Create up to 100 tasks in a project in one call; reports the outcome of every task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            tasks: {
+              type: "array",
+              description: "Tasks to create",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string", description: "Task name" },
+                  description: { type: "string", description: "Task description" },
+                  priority: {
+                    type: "string",
+                    description: "Task priority",
+                    enum: ["none", "low", "medium", "high"],
+                  },
+                  start_date: { type: "string", description: "Start date (YYYY-MM-DD)" },
+                  end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
+                  assignee_zpuid: { type: "string", description: "Assignee user ZPUID" },
+                  tasklist_id: { type: "string", description: "Task list to create the task in" },
+                },
+                required: ["name"],
+              },
+            },
+            concurrency: {
+              type: "number",
+              description: "Requests sent to Zoho at once (1-10)",
+              default: 5,
+            },
+          },
+          required: ["project_id", "tasks"],
+        },
+      },
+      {
+        name: "bulk_update_tasks",
+        description:
+          "Update up to 100 tasks in a project in one call; reports the outcome of every task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            tasks: {
+              type: "array",
+              description: "Task updates, each naming the task to change",
+              items: {
+                type: "object",
+                properties: {
+                  task_id: { type: "string", description: "Task ID" },
+                  name: { type: "string", description: "Task name" },
+                  description: { type: "string", description: "Task description" },
+                  priority: {
+                    type: "string",
+                    description: "Task priority",
+                    enum: ["none", "low", "medium", "high"],
+                  },
+                  start_date: { type: "string", description: "Start date (YYYY-MM-DD)" },
+                  end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
+                  tasklist_id: { type: "string", description: "Task list to move the task to" },
+                },
+                required: ["task_id"],
+              },
+            },
+            concurrency: {
+              type: "number",
+              description: "Requests sent to Zoho at once (1-10)",
+              default: 5,
+            },
+          },
+          required: ["project_id", "tasks"],
+        },
+      },
+      {
+        name: "bulk_delete_tasks",
+        description:
+          "Delete up to 100 tasks in a project in one call; reports the outcome of every task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_ids: {
+              type: "array",
+              description: "IDs of the tasks to delete",
+              items: { type: "string" },
+            },
+            concurrency: {
+              type: "number",
+              description: "Requests sent to Zoho at once (1-10)",
+              default: 5,
+            },
+          },
+          required: ["project_id", "task_ids"],
+        },
+      },
+
+      // Task comment operations
+      {
+        name: "list_task_comments",
+        description: "List comments on a task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Task ID" },
+          },
+          required: ["project_id", "task_id"],
+        },
+      },
+      {
+        name: "add_task_comment",
+        description: "Add a comment to a task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Task ID" },
+            comment: { type: "string", description: "Comment text" },
+          },
+          required: ["project_id", "task_id", "comment"],
+        },
+      },
+      {
+        name: "update_task_comment",
+        description: "Edit an existing task comment",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Task ID" },
+            comment_id: { type: "string", description: "Comment ID" },
+            comment: { type: "string", description: "New comment text" },
+          },
+          required: ["project_id", "task_id", "comment_id", "comment"],
+        },
+      },
+      {
+        name: "delete_task_comment",
+        description: "Delete a task comment",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Task ID" },
+            comment_id: { type: "string", description: "Comment ID" },
+          },
+          required: ["project_id", "task_id", "comment_id"],
+        },
+      },
+
+      // Subtask operations
+      {
+        name: "list_subtasks",
+        description: "List subtasks of a parent task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Parent task ID" },
+          },
+          required: ["project_id", "task_id"],
+        },
+      },
+      {
+        name: "create_subtask",
+        description: "Create a subtask under a parent task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Parent task ID" },
+            name: { type: "string", description: "Subtask name" },
+            description: { type: "string", description: "Subtask description" },
+            priority: {
+              type: "string",
+              description: "Subtask priority",
+              enum: ["none", "low", "medium", "high"],
+            },
+            start_date: {
+              type: "string",
+              description: "Start date (YYYY-MM-DD)",
+            },
+            end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
+            assignee_zpuid: {
+              type: "string",
+              description: "Assignee user ZPUID",
+            },
+          },
+          required: ["project_id", "task_id", "name"],
+        },
+      },
+
+      // Task dependency operations
+      {
+        name: "add_task_dependency",
+        description: "Link a predecessor or successor task to a task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Task ID" },
+            dependent_task_id: {
+              type: "string",
+              description: "ID of the task to link",
+            },
+            relation: {
+              type: "string",
+              description: "How the linked task relates to task_id",
+              enum: ["predecessor", "successor"],
+            },
+            dependency_type: {
+              type: "string",
+              description: "Dependency type (finish-to-start, start-to-start, finish-to-finish, start-to-finish)",
+              enum: ["FS", "SS", "FF", "SF"],
+              default: "FS",
+            },
+            lag: { type: "number", description: "Lag time in days" },
+          },
+          required: ["project_id", "task_id", "dependent_task_id", "relation"],
+        },
+      },
+      {
+        name: "remove_task_dependency",
+        description: "Remove a predecessor or successor link from a task",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: { type: "string", description: "Task ID" },
+            dependent_task_id: {
+              type: "string",
+              description: "ID of the linked task to remove",
+            },
+            relation: {
+              type: "string",
+              description: "How the linked task relates to task_id",
+              enum: ["predecessor", "successor"],
+            },
+          },
+          required: ["project_id", "task_id", "dependent_task_id", "relation"],
+        },
+      },
+
+      // Task list operations
+      {
+        name: "list_tasklists",
+        description: "List task lists in a project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            page: { type: "number", description: "Page number", minimum: 1, default: 1 },
+            per_page: {
+              type: "number",
+              description: "Items per page",
+              minimum: 1,
+              default: 10,
+            },
+            all_pages: {
+              type: "boolean",
+              description: "Fetch every page and merge the results",
+              default: false,
+            },
+            max_items: {
+              type: "number",
+              description: "Maximum number of items to return when all_pages is set",
+              minimum: 1,
+            },
+          },
+          required: ["project_id"],
+        },
+      },
+      {
+        name: "create_tasklist",
+        description: "Create a task list in a project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            name: { type: "string", description: "Task list name" },
+            milestone_id: {
+              type: "string",
+              description: "Phase/milestone to attach the task list to",
+            },
+            flag: {
+              type: "string",
+              description: "Task list visibility",
+              enum: ["internal", "external"],
+            },
+          },
+          required: ["project_id", "name"],
+        },
+      },
+      {
+        name: "update_tasklist",
+        description: "Update a task list",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            tasklist_id: { type: "string", description: "Task list ID" },
+            name: { type: "string", description: "Task list name" },
+            milestone_id: {
+              type: "string",
+              description: "Phase/milestone to attach the task list to",
+            },
+            flag: {
+              type: "string",
+              description: "Task list visibility",
+              enum: ["internal", "external"],
+            },
+          },
+          required: ["project_id", "tasklist_id"],
+        },
+      },
+      {
+        name: "delete_tasklist",
+        description: "Delete a task list",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            tasklist_id: { type: "string", description: "Task list ID" },
+          },
+          required: ["project_id", "tasklist_id"],
+        },
+      },
+
+      // Issue operations
+      {
+        name: "list_issues",
+        description: "List issues from a project or portal",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: {
+              type: "string",
+              description: "Project ID (optional for portal-level)",
+            },
+            page: { type: "number", description: "Page number", minimum: 1, default: 1 },
+            per_page: {
+              type: "number",
+              description: "Items per page",
+              minimum: 1,
+              default: 10,
+            },
+            all_pages: {
+              type: "boolean",
+              description: "Fetch every page and merge the results",
+              default: false,
+            },
+            max_items: {
+              type: "number",
+              description: "Maximum number of items to return when all_pages is set",
+              minimum: 1,
+            },
+          },
+        },
+      },
+      {
+        name: "get_issue",
+        description: "Get details of a specific issue",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            issue_id: { type: "string", description: "Issue ID" },
+          },
+          required: ["project_id", "issue_id"],
+        },
+      },
+      {
+        name: "create_issue",
+        description: "Create a new issue",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            title: { type: "string", description: "Issue title" },
+            description: { type: "string", description: "Issue description" },
+            severity: {
+              type: "string",
+              description: "Issue severity",
+              enum: ["minor", "major", "critical"],
+            },
+            due_date: { type: "string", description: "Due date (YYYY-MM-DD)" },
+            assignee_zpuid: {
+              type: "string",
+              description: "Assignee user ZPUID",
+            },
+            reporter_zpuid: {
+              type: "string",
+              description: "Reporter user ZPUID",
+            },
+            classification_id: {
+              type: "string",
+              description: "Issue classification ID",
+            },
+            module_id: { type: "string", description: "Issue module ID" },
+            affected_milestone_id: {
+              type: "string",
+              description: "ID of the milestone the issue affects",
+            },
+          },
+          required: ["project_id", "title"],
+        },
+      },
+      {
+        name: "update_issue",
+        description: "Update an issue",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            issue_id: { type: "string", description: "Issue ID" },
+            title: { type: "string", description: "Issue title" },
+            description: { type: "string", description: "Issue description" },
+            severity: {
+              type: "string",
+              description: "Issue severity",
+              enum: ["minor", "major", "critical"],
+            },
+            due_date: { type: "string", description: "Due date (YYYY-MM-DD)" },
+            assignee_zpuid: {
+              type: "string",
+              description: "Assignee user ZPUID",
+            },
+            reporter_zpuid: {
+              type: "string",
+              description: "Reporter user ZPUID",
+            },
+            classification_id: {
+              type: "string",
+              description: "Issue classification ID",
+            },
+            module_id: { type: "string", description: "Issue module ID" },
+            affected_milestone_id: {
+              type: "string",
+              description: "ID of the milestone the issue affects",
+            },
+          },
+          required: ["project_id", "issue_id"],
+        },
+      },
+      {
+        name: "delete_issue",
+        description: "Delete an issue",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            issue_id: { type: "string", description: "Issue ID" },
+          },
+          required: ["project_id", "issue_id"],
+        },
+      },
+      {
+        name: "list_issue_statuses",
+        description: "List the issue statuses configured for a project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+          },
+          required: ["project_id"],
+        },
+      },
+      {
+        name: "change_issue_status",
+        description: "Move an issue to another configured status (e.g. Open, In progress, Closed, Reopen)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            issue_id: { type: "string", description: "Issue ID" },
+            status: {
+              type: "string",
+              description: "Status name or ID as configured in the portal",
+            },
+          },
+          required: ["project_id", "issue_id", "status"],
+        },
+      },
+      {
+        name: "list_issue_comments",
+        description: "List comments on an issue",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            issue_id: { type: "string", description: "Issue ID" },
+          },
+          required: ["project_id", "issue_id"],
+        },
+      },
+      {
+        name: "add_issue_comment",
+        description: "Add a comment to an issue",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            issue_id: { type: "string", description: "Issue ID" },
+            comment: { type: "string", description: "Comment text" },
+          },
+          required: ["project_id", "issue_id", "comment"],
+        },
+      },
+      {
+        name: "update_issue_comment",
+        description: "Edit an existing issue comment",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            issue_id: { type: "string", description: "Issue ID" },
+            comment_id: { type: "string", description: "Comment ID" },
+            comment: { type: "string", description: "New comment text" },
+          },
+          required: ["project_id", "issue_id", "comment_id", "comment"],
+        },
+      },
+      {
+        name: "delete_issue_comment",
+        description: "Delete an issue comment",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            issue_id: { type: "string", description: "Issue ID" },
+            comment_id: { type: "string", description: "Comment ID" },
+          },
+          required: ["project_id", "issue_id", "comment_id"],
+        },
+      },
+
+      // Milestone/Phase operations
+      {
+        name: "list_phases",
+        description: "List phases/milestones from a project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            page: { type: "number", description: "Page number", minimum: 1, default: 1 },
+            per_page: {
+              type: "number",
+              description: "Items per page",
+              minimum: 1,
+              default: 10,
+            },
+            all_pages: {
+              type: "boolean",
+              description: "Fetch every page and merge the results",
+              default: false,
+            },
+            max_items: {
+              type: "number",
+              description: "Maximum number of items to return when all_pages is set",
+              minimum: 1,
+            },
+          },
+          required: ["project_id"],
+        },
+      },
+      {
+        name: "create_phase",
+        description: "Create a new phase/milestone",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            name: { type: "string", description: "Phase name" },
+            start_date: {
+              type: "string",
+              description: "Start date (YYYY-MM-DD)",
+            },
+            end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
+            owner_zpuid: { type: "string", description: "Owner user ZPUID" },
+          },
+          required: ["project_id", "name"],
+        },
+      },
+      {
+        name: "get_phase",
+        description: "Get details of a specific phase/milestone",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            phase_id: { type: "string", description: "Phase ID" },
+          },
+          required: ["project_id", "phase_id"],
+        },
+      },
+      {
+        name: "update_phase",
+        description: "Update a phase/milestone",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            phase_id: { type: "string", description: "Phase ID" },
+            name: { type: "string", description: "Phase name" },
+            start_date: {
+              type: "string",
+              description: "Start date (YYYY-MM-DD)",
+            },
+            end_date: { type: "string", description: "End date (YYYY-MM-DD)" },
+            owner_zpuid: { type: "string", description: "Owner user ZPUID" },
+          },
+          required: ["project_id", "phase_id"],
+        },
+      },
+      {
+        name: "delete_phase",
+        description: "Delete a phase/milestone",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            phase_id: { type: "string", description: "Phase ID" },
+          },
+          required: ["project_id", "phase_id"],
+        },
+      },
+      {
+        name: "complete_phase",
+        description: "Mark a phase/milestone as completed, or reopen it",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            phase_id: { type: "string", description: "Phase ID" },
+            completed: {
+              type: "boolean",
+              description: "Set to false to reopen a completed phase",
+              default: true,
+            },
+          },
+          required: ["project_id", "phase_id"],
+        },
+      },
+      {
+        name: "get_phase_work",
+        description: "Show a phase/milestone with its tasks and open issues, to see what is blocking it",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            phase_id: { type: "string", description: "Phase ID" },
+            include_closed_tasks: {
+              type: "boolean",
+              description: "Include completed tasks in the task list",
+              default: false,
+            },
+          },
+          required: ["project_id", "phase_id"],
+        },
+      },
+
+      // Time log operations
+      {
+        name: "list_timelogs",
+        description:
+          "List time logs for a task, issue, project or the whole portal, with per-user and per-day totals " +
+          "over every matching log (not just the returned page)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: {
+              type: "string",
+              description: "Project ID (optional for portal-level)",
+            },
+            task_id: {
+              type: "string",
+              description: "Only time logged against this task (requires project_id)",
+            },
+            issue_id: {
+              type: "string",
+              description: "Only time logged against this issue (requires project_id)",
+            },
+            start_date: {
+              type: "string",
+              description: "Start of date range (YYYY-MM-DD)",
+            },
+            end_date: {
+              type: "string",
+              description: "End of date range (YYYY-MM-DD)",
+            },
+            user_zpuid: {
+              type: "string",
+              description: "Only time logged by this user ZPUID",
+            },
+            bill_status: {
+              type: "string",
+              description: "Billing status filter",
+              enum: ["all", "billable", "non_billable"],
+              default: "all",
+            },
+            page: { type: "number", description: "Page number", minimum: 1, default: 1 },
+            per_page: {
+              type: "number",
+              description: "Items per page",
+              minimum: 1,
+              default: 10,
+            },
+            all_pages: {
+              type: "boolean",
+              description: "Fetch every page and merge the results",
+              default: false,
+            },
+            max_items: {
+              type: "number",
+              description: "Maximum number of items to return when all_pages is set",
+              minimum: 1,
+            },
+          },
+        },
+      },
+      {
+        name: "create_timelog",
+        description: "Log time against a task, an issue, or the project in general",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: {
+              type: "string",
+              description: "Task ID to log time against",
+            },
+            issue_id: {
+              type: "string",
+              description: "Issue ID to log time against",
+            },
+            date: { type: "string", description: "Log date (YYYY-MM-DD)" },
+            hours: {
+              type: "string",
+              description: "Time spent (HH:MM or decimal hours)",
+            },
+            billable: {
+              type: "boolean",
+              description: "Is the time billable",
+              default: true,
+            },
+            notes: { type: "string", description: "Notes for the time log" },
+            owner_zpuid: {
+              type: "string",
+              description: "User ZPUID to log the time for (defaults to the caller)",
+            },
+          },
+          required: ["project_id", "date", "hours"],
+        },
+      },
+      {
+        name: "update_timelog",
+        description: "Update a time log",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: {
+              type: "string",
+              description: "Task ID to log time against",
+            },
+            issue_id: {
+              type: "string",
+              description: "Issue ID to log time against",
+            },
+            timelog_id: { type: "string", description: "Time log ID" },
+            date: { type: "string", description: "Log date (YYYY-MM-DD)" },
+            hours: {
+              type: "string",
+              description: "Time spent (HH:MM or decimal hours)",
+            },
+            billable: { type: "boolean", description: "Is the time billable" },
+            notes: { type: "string", description: "Notes for the time log" },
+          },
+          required: ["project_id", "timelog_id"],
+        },
+      },
+      {
+        name: "delete_timelog",
+        description: "Delete a time log",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            task_id: {
+              type: "string",
+              description: "Task ID to log time against",
+            },
+            issue_id: {
+              type: "string",
+              description: "Issue ID to log time against",
+            },
+            timelog_id: { type: "string", description: "Time log ID" },
+          },
+          required: ["project_id", "timelog_id"],
+        },
+      },
+
+      // Search
+      {
+        name: "search",
+        description: "Search across portal or project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            search_term: {
+              type: "string",
+              description: "Search term/query",
+            },
+            project_id: {
+              type: "string",
+              description: "Project ID (optional for portal-level search)",
+            },
+            module: {
+              type: "string",
+              description: "Module to search in",
+              enum: [
+                "all",
+                "projects",
+                "tasks",
+                "issues",
+                "milestones",
+                "forums",
+                "events",
+              ],
+            },
+            page: { type: "number", description: "Page number", minimum: 1, default: 1 },
+            per_page: {
+              type: "number",
+              description: "Items per page",
+              minimum: 1,
+              default: 10,
+            },
+          },
+          required: ["search_term"],
+        },
+      },
+
+      // Reports
+      {
+        name: "generate_project_report",
+        description:
+          "Generate a project status report: task completion, overdue tasks, open issues by " +
+          "severity, milestone progress and per-user workload",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: { type: "string", description: "Project ID" },
+            from_date: {
+              type: "string",
+              description: "Start of the reported period (YYYY-MM-DD, default: 7 days before to_date)",
+              pattern: DATE_PATTERN,
+            },
+            to_date: {
+              type: "string",
+              description: "End of the reported period (YYYY-MM-DD, default: today)",
+              pattern: DATE_PATTERN,
+            },
+            report_format: {
+              type: "string",
+              description: "Render the report as Markdown or as an HTML document",
+              enum: ["markdown", "html"],
+              default: "markdown",
+            },
+          },
+          required: ["project_id"],
+        },
+      },
+
+      // Audit log
+      {
+        name: "get_audit_log",
+        description:
+          "List create, update and delete calls made through this server, newest first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            session_id: {
+              type: "string",
+              description:
+                "Only calls from this MCP session. Over HTTP, ignored unless the server allows reading other sessions' calls",
+            },
+            tool: { type: "string", description: "Only calls to this tool" },
+            outcome: {
+              type: "string",
+              description: "Only calls with this outcome",
+              enum: ["success", "partial", "error", "dry_run"],
+            },
+            since: {
+              type: "string",
+              description: "Only calls made at or after this date or ISO 8601 timestamp",
+            },
+            limit: { type: "number", description: "Maximum entries to return", default: 50 },
+          },
+        },
+      },
+
+      // Users
+      {
+        name: "list_users",
+        description: "List users in a portal or project",
+        inputSchema: {
+          type: "object",
+          properties: {
+            project_id: {
+              type: "string",
+              description: "Project ID (optional for portal-level)",
+            },
+            page: { type: "number", description: "Page number", minimum: 1 },
+            per_page: { type: "number", description: "Items per page", minimum: 1 },
+            all_pages: {
+              type: "boolean",
+              description: "Fetch every page and merge the results",
+              default: false,
+            },
+            max_items: {
+              type: "number",
+              description: "Maximum number of items to return when all_pages is set",
+              minimum: 1,
+            },
+          },
+        },
+      },
+    ];
+
+    // Every portal-scoped tool can target a portal other than the session default
+    for (const tool of tools) {
+      if (["list_portals", "set_default_portal", "get_audit_log"].includes(tool.name)) continue;
+      tool.inputSchema.properties = {
+        ...tool.inputSchema.properties,
+        portal_id: tool.inputSchema.properties?.portal_id || {
+          type: "string",
+          description: "Portal ID or name (defaults to the session's default portal)",
+        },
+      };
+    }
+
+    // Read tools can trim their output: lists default to compact, single records to full
+    for (const tool of tools) {
+      // Reports render their own output format
+      if (!isReadTool(tool.name) || tool.name === "generate_project_report") continue;
+      const defaultFormat =
+        tool.name.startsWith("get_") && tool.name !== "get_phase_work" ? "full" : "compact";
+      tool.inputSchema.properties = {
+        ...tool.inputSchema.properties,
+        format: {
+          type: "string",
+          description:
+            "Response format: full Zoho payload, compact key fields, or a Markdown table",
+          enum: ["full", "compact", "markdown_table"],
+          default: defaultFormat,
+        },
+        fields: {
+          type: "array",
+          description: "Only return these fields of each record (dot paths, e.g. status.name)",
+          items: { type: "string" },
+        },
+      };
+    }
+
+    // Tools returning projects, tasks, issues, phases or users also return them normalized
+    for (const tool of tools) {
+      const outputSchema = outputSchemaFor(tool.name);
+      if (outputSchema) tool.outputSchema = outputSchema;
+    }
+
+    // Mutating tools can be previewed; with confirmation required, deletes take two calls
+    for (const tool of tools) {
+      if (!isMutatingTool(tool.name)) continue;
+      tool.inputSchema.properties = {
+        ...tool.inputSchema.properties,
+        dry_run: {
+          type: "boolean",
+          description:
+            "Only show the requests this call would send to Zoho and the current state of their targets",
+          default: false,
+        },
+      };
+      if (tool.outputSchema) {
+        tool.outputSchema.properties = {
+          ...tool.outputSchema.properties,
+          dry_run: {
+            type: "object",
+            description: "Present only in previews, which never include the record itself",
+            properties: { requests: { type: "array", items: { type: "object" } } },
+            required: ["requests"],
+          },
+        };
+      }
+      if (REQUIRE_CONFIRMATION && isDestructiveTool(tool.name)) {
+        tool.inputSchema.properties.confirmation_token = {
+          type: "string",
+          description:
+            "Token from this call's preview; call without it first to review what will be deleted",
+        };
+      }
+    }
+
+    // List available tools
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: tools.filter(
+        (tool) => !toolBlockReason(tool.name, isMutatingTool(tool.name), this.toolPolicies)
+      ),
+    }));
+
+    // Handle tool execution
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+
+      const blocked = toolBlockReason(name, isMutatingTool(name), this.toolPolicies);
+      if (blocked) {
+        throw new McpError(ErrorCode.InvalidRequest, `Tool ${name} is not permitted: ${blocked}`);
+      }
+
+      // Cast args to any once they have been checked against the tool's inputSchema
+      const params = (args || {}) as any;
+      // Unknown tools are rejected before anything is counted or audited
+      const tool = tools.find((candidate) => candidate.name === name);
+      if (!tool) {
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      }
+      const errors = validateArguments(tool.inputSchema, params);
+      if (errors.length > 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for ${name}: ${errors.join("; ")}`
+        );
+      }
+
+      const startedAt = Date.now();
+      let callContext: RequestContext | undefined;
+      try {
+        // These arguments shape this call only and are never forwarded to Zoho
+        const { portal_id, format, fields, dry_run, confirmation_token, ...toolParams } = params;
+        const portalId = await this.resolvePortalId(portal_id);
+
+        let dryRun = isMutatingTool(name) && (DRY_RUN || dry_run === true);
+        let confirmation: string | undefined;
+        if (REQUIRE_CONFIRMATION && isDestructiveTool(name) && !dryRun) {
+          const fingerprint = hashText(
+            JSON.stringify([name, portalId, Object.entries(toolParams).sort()])
+          );
+          if (confirmation_token === undefined) {
+            dryRun = true;
+            confirmation = this.issueConfirmation(fingerprint);
+          } else {
+            this.redeemConfirmation(name, confirmation_token, fingerprint);
+          }
+        }
+
+        const context: RequestContext = {
+          portalId,
+          sessionId: extra.sessionId,
+          format: format || (tool?.inputSchema.properties?.format as any)?.default,
+          fields,
+          ...(dryRun && { plannedRequests: [] }),
+        };
+        callContext = context;
+        const result = await this.requestContext.run(context, () =>
+          this.callTool(name, toolParams)
+        );
+        if (dryRun) {
+          const preview = await this.requestContext.run(context, () =>
+            this.dryRunResult(name, tool, context, confirmation)
+          );
+          await this.recordCall(name, params, context, startedAt, "dry_run");
+          return preview;
+        }
+
+        const { outcome, error } = resultOutcome(context.result);
+        await this.recordCall(name, params, context, startedAt, outcome, error);
+        if (isMutatingTool(name)) {
+          await this.notifyResourcesUpdated(affectedResourceUris(portalId, toolParams));
+        }
+        const structuredContent = tool.outputSchema
+          ? structuredContentFor(name, context.result)
+          : undefined;
+        return structuredContent ? { ...result, structuredContent } : result;
+      } catch (error) {
+        await this.recordCall(name, params, callContext, startedAt, "error", error);
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Error executing ${name}: ${error}`
+        );
+      }
+    });
+
+    // Resources let clients attach projects, tasks and issues as context directly
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await this.listRecentProjectResources(),
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      return {
+        contents: [{ uri, mimeType: "application/json", text: await this.readResource(uri) }],
+      };
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      // Reading up front both validates the URI and records the state to compare against
+      const text = await this.readResource(uri);
+      this.subscriptions.set(uri, hashText(text));
+      this.startPolling();
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      if (this.subscriptions.size === 0) this.stopPolling();
+      return {};
+    });
+
+    // Prompts turn live project data into ready-to-run requests for common workflows
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      this.getPrompt(request.params.name, request.params.arguments || {})
+    );
+  }
+
+  private async callTool(name: string, params: any) {
+    switch (name) {
+      // Portal operations
+      case "list_portals":
+        return await this.listPortals();
+      case "get_portal":
+        return await this.getPortal(this.portalId);
+      case "set_default_portal":
+        return await this.setDefaultPortal(params.portal);
+
+      // Project operations
+      case "list_projects":
+        return await this.listProjects(this.paginationFrom(params));
+      case "get_project":
+        return await this.getProject(params.project_id);
+      case "create_project":
+        return await this.createProject(params);
+      case "update_project":
+        return await this.updateProject(params);
+      case "delete_project":
+        return await this.deleteProject(params.project_id);
+
+      // Task operations
+      case "list_tasks":
+        return await this.listTasks(
+          params.project_id,
+          this.paginationFrom(params),
+          params.tasklist_id,
+          params
+        );
+      case "get_task":
+        return await this.getTask(params.project_id, params.task_id);
+      case "create_task":
+        return await this.createTask(params);
+      case "update_task":
+        return await this.updateTask(params);
+      case "bulk_create_tasks":
+        return await this.bulkCreateTasks(params);
+      case "bulk_update_tasks":
+        return await this.bulkUpdateTasks(params);
+      case "bulk_delete_tasks":
+        return await this.bulkDeleteTasks(params);
+      case "delete_task":
+        return await this.deleteTask(params.project_id, params.task_id);
+
+      // Task comment operations
+      case "list_task_comments":
+        return await this.listTaskComments(params.project_id, params.task_id);
+      case "add_task_comment":
+        return await this.addTaskComment(params);
+      case "update_task_comment":
+        return await this.updateTaskComment(params);
+      case "delete_task_comment":
+        return await this.deleteTaskComment(
+          params.project_id,
+          params.task_id,
+          params.comment_id
+        );
+
+      // Subtask operations
+      case "list_subtasks":
+        return await this.listSubtasks(params.project_id, params.task_id);
+      case "create_subtask":
+        return await this.createSubtask(params);
+
+      // Task dependency operations
+      case "add_task_dependency":
+        return await this.addTaskDependency(params);
+      case "remove_task_dependency":
+        return await this.removeTaskDependency(params);
+
+      // Task list operations
+      case "list_tasklists":
+        return await this.listTasklists(params.project_id, this.paginationFrom(params));
+      case "create_tasklist":
+        return await this.createTasklist(params);
+      case "update_tasklist":
+        return await this.updateTasklist(params);
+      case "delete_tasklist":
+        return await this.deleteTasklist(params.project_id, params.tasklist_id);
+
+      // Issue operations
+      case "list_issues":
+        return await this.listIssues(params.project_id, this.paginationFrom(params));
+      case "get_issue":
+        return await this.getIssue(params.project_id, params.issue_id);
+      case "create_issue":
+        return await this.createIssue(params);
+      case "update_issue":
+        return await this.updateIssue(params);
+      case "delete_issue":
+        return await this.deleteIssue(params.project_id, params.issue_id);
+      case "list_issue_statuses":
+        return await this.listIssueStatuses(params.project_id);
+      case "change_issue_status":
+        return await this.changeIssueStatus(params);
+
+      // Issue comment operations
+      case "list_issue_comments":
+        return await this.listIssueComments(params.project_id, params.issue_id);
+      case "add_issue_comment":
+        return await this.addIssueComment(params);
+      case "update_issue_comment":
+        return await this.updateIssueComment(params);
+      case "delete_issue_comment":
+        return await this.deleteIssueComment(
+          params.project_id,
+          params.issue_id,
+          params.comment_id
+        );
+
+      // Phase operations
+      case "list_phases":
+        return await this.listPhases(params.project_id, this.paginationFrom(params));
+      case "create_phase":
+        return await this.createPhase(params);
+      case "get_phase":
+        return await this.getPhase(params.project_id, params.phase_id);
+      case "update_phase":
+        return await this.updatePhase(params);
+      case "delete_phase":
+        return await this.deletePhase(params.project_id, params.phase_id);
+      case "complete_phase":
+        return await this.completePhase(params);
+      case "get_phase_work":
+        return await this.getPhaseWork(params);
+
+      // Time log operations
+      case "list_timelogs":
+        return await this.listTimelogs(params);
+      case "create_timelog":
+        return await this.createTimelog(params);
+      case "update_timelog":
+        return await this.updateTimelog(params);
+      case "delete_timelog":
+        return await this.deleteTimelog(params);
+
+      // Search
+      case "search":
+        return await this.search(params);
+
+      // Reports
+      case "generate_project_report":
+        return await this.generateProjectReport(params);
+
+      // Audit log
+      case "get_audit_log":
+        return await this.getAuditLog(params);
+
+      // Users
+      case "list_users":
+        return await this.listUsers(params.project_id, this.paginationFrom(params));
+
+      default:
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
+    }
+  }
+
+  // Dry runs and confirmations
+  private async dryRunResult(
+    name: string,
+    tool: Tool,
+    context: RequestContext,
+    confirmation?: string
+  ) {
+    // Show what each change would overwrite; creates have no target yet, and trashing
+    // a project is a POST on the project's own /trash action
+    const requests = [];
+    for (const planned of context.plannedRequests || []) {
+      const target =
+        planned.method !== "POST"
+          ? planned.endpoint
+          : planned.endpoint.endsWith("/trash")
+          ? planned.endpoint.slice(0, -"/trash".length)
+          : undefined;
+      const currentState =
+        target === undefined
+          ? undefined
+          : await this.makeRequest(target).catch((error) => ({
+              error: error?.message || String(error),
+            }));
+      requests.push({
+        ...planned,
+        ...(currentState !== undefined && { current_state: currentState }),
+      });
+    }
+
+    const sections = [
+      `Dry run: nothing was sent to Zoho. ${name} would send ${requests.length} request(s):`,
+      JSON.stringify(requests, null, 2),
+    ];
+    if (confirmation) {
+      sections.push(
+        `To execute, call ${name} again with the same arguments and ` +
+          `confirmation_token "${confirmation}" within ${CONFIRMATION_TTL_MS / 60000} minutes.`
+      );
+    }
+
+    // Tools with an output schema must return structured content; a preview carries only the
+    // planned requests, never a record, so it cannot be mistaken for one Zoho returned
+    const structuredContent = tool.outputSchema ? { dry_run: { requests } } : undefined;
+    return {
+      content: [{ type: "text", text: sections.join("\n\n") }],
+      ...(structuredContent && { structuredContent }),
+    };
+  }
+
+  private issueConfirmation(fingerprint: string): string {
+    const now = Date.now();
+    for (const [token, entry] of this.confirmations) {
+      if (entry.expiresAt <= now) this.confirmations.delete(token);
+    }
+    const token = randomUUID();
+    this.confirmations.set(token, { fingerprint, expiresAt: now + CONFIRMATION_TTL_MS });
+    return token;
+  }
+
+  // Tokens are single-use and only valid for the exact call they were issued for
+  private redeemConfirmation(name: string, token: string, fingerprint: string) {
+    const entry = this.confirmations.get(token);
+    this.confirmations.delete(token);
+    if (!entry || entry.expiresAt <= Date.now() || entry.fingerprint !== fingerprint) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `confirmation_token is invalid, expired or was issued for different arguments. ` +
+          `Call ${name} without confirmation_token to preview the operation and get a new token.`
+      );
+    }
+  }
+
+  // Audit log and metrics
+  // Every call is counted; mutating calls, including failed and previewed ones, are audited
+  private async recordCall(
+    name: string,
+    params: any,
+    context: RequestContext | undefined,
+    startedAt: number,
+    outcome: AuditOutcome,
+    error?: unknown
+  ) {
+    metrics.recordToolCall(name, outcome, Date.now() - startedAt);
+    if (!isMutatingTool(name)) {
+      return;
+    }
+    await auditLog.record({
+      timestamp: new Date(startedAt).toISOString(),
+      ...(context?.sessionId && { session_id: context.sessionId }),
+      tool: name,
+      portal_id: context?.portalId,
+      arguments: params,
+      outcome,
+      duration_ms: Date.now() - startedAt,
+      zoho_ids: ["success", "partial"].includes(outcome) ? responseIds(context?.result) : [],
+      ...(error !== undefined && {
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    });
+  }
+
+  private async getAuditLog(params: any) {
+    // HTTP sessions only see their own calls unless the operator opts in; sessions using their
+    // own Zoho account always do. A stdio client has no session ID and is the only client
+    const callerSessionId = this.requestContext.getStore()?.sessionId;
+    const sessionId =
+      this.ownCredentials || (callerSessionId && !AUDIT_ALL_SESSIONS)
+        ? callerSessionId || "-"
+        : params.session_id;
+    const entries = await auditLog.query({
+      sessionId,
+      tool: params.tool,
+      outcome: params.outcome,
+      since: params.since,
+      limit: params.limit,
+    });
+    return this.respond(entries);
+  }
+
+  // Resources
+  private async listRecentProjectResources() {
+    if (!this.config.portalId) {
+      return [];
+    }
+    const portalId = await this.resolvePortalId(this.config.portalId);
+    const data = await this.makeRequest(`/portal/${portalId}/projects?page=1&per_page=100`);
+    const modified = (project: any) =>
+      Number(project.last_modified_time_long ?? Date.parse(project.last_modified_time ?? "")) || 0;
+
+    return extractList(data)
+      .sort((a, b) => modified(b) - modified(a))
+      .slice(0, RECENT_PROJECTS)
+      .map((project) => ({
+        uri: resourceUri({
+          portalId,
+          projectId: String(project.id),
+          kind: "project",
+          id: String(project.id),
+        }),
+        name: project.name,
+        description: project.description || undefined,
+        mimeType: "application/json",
+      }));
+  }
+
+  private async readResource(uri: string): Promise<string> {
+    const ref = parseResourceUri(uri);
+    if (!ref) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown resource URI: ${uri}. Expected zoho://portal/{portal_id}/project/{project_id}[/task|issue/{id}]`
+      );
+    }
+
+    const projectPath = `/portal/${ref.portalId}/projects/${ref.projectId}`;
+    const endpoint =
+      ref.kind === "project" ? projectPath : `${projectPath}/${ref.kind}s/${ref.id}`;
+    const data = await this.makeRequest(endpoint);
+    return JSON.stringify(data, null, 2);
+  }
+
+  private async notifyResourcesUpdated(uris: string[]) {
+    for (const uri of uris.filter((candidate) => this.subscriptions.has(candidate))) {
+      // Forget the old state so the next poll does not report this change a second time
+      this.subscriptions.set(uri, undefined);
+      await this.server.sendResourceUpdated({ uri }).catch((error) => {
+        console.error(`Failed to send resource update for ${uri}: ${error}`);
+      });
+    }
+  }
+
+  private startPolling() {
+    if (this.pollTimer || RESOURCE_POLL_MS <= 0) {
+      return;
+    }
+    this.pollTimer = setInterval(() => this.pollSubscriptions(), RESOURCE_POLL_MS);
+    this.pollTimer.unref();
+  }
+
+  private stopPolling() {
+    clearInterval(this.pollTimer);
+    this.pollTimer = undefined;
+  }
+
+  // Re-reads subscribed resources and notifies the client about those whose content changed
+  private async pollSubscriptions() {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      for (const [uri, previous] of this.subscriptions) {
+        try {
+          const hash = hashText(await this.readResource(uri));
+          if (!this.subscriptions.has(uri)) continue;
+          this.subscriptions.set(uri, hash);
+          if (previous !== undefined && previous !== hash) {
+            await this.server.sendResourceUpdated({ uri });
+          }
+        } catch (error) {
+          console.error(`Failed to poll resource ${uri}: ${error}`);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Prompts
+  private async getPrompt(name: string, args: Record<string, string>) {
+    const prompt = PROMPTS.find((candidate) => candidate.name === name);
+    const template = PROMPT_TEMPLATES[name];
+    if (!prompt || !template) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = (prompt.arguments || [])
+      .filter((argument) => argument.required && !args[argument.name])
+      .map((argument) => argument.name);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing arguments for ${name}: ${missing.join(", ")}`
+      );
+    }
+
+    // Data is embedded compact so the prompt carries key fields rather than full payloads
+    const context: RequestContext = {
+      portalId: await this.resolvePortalId(args.portal_id),
+      format: "compact",
+    };
+    const sections = await this.requestContext.run(context, () =>
+      Promise.all(
+        template.sources.map(
+          async (source) => `## ${source}\n\n${await this.promptSource(source, args.project_id)}`
+        )
+      )
+    );
+
+    const today = new Date().toISOString().slice(0, 10);
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: "user" as const,
+          content: {
+            type: "text" as const,
+            text: `${template.render(args, today)}\n\n${sections.join("\n\n")}`,
+          },
+        },
+      ],
+    };
+  }
+
+  private async promptSource(source: PromptSource, projectId: string): Promise<string> {
+    const pagination: PaginationOptions = { allPages: true, maxItems: PROMPT_MAX_ITEMS };
+    switch (source) {
+      case "tasks":
+        return (await this.listTasks(projectId, pagination)).content[0].text;
+      case "issues":
+        return (await this.listIssues(projectId, pagination)).content[0].text;
+      case "phases":
+        return (await this.listPhases(projectId, pagination)).content[0].text;
+      case "users":
+        return (await this.listUsers(projectId)).content[0].text;
+    }
+  }
+
+  // Renders read results in the format the caller asked for
+  private respond(data: any, entity?: EntityType) {
+    const context = this.requestContext.getStore();
+    if (context) context.result = data;
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatResponse(
+            data,
+            { format: context?.format || "full", fields: context?.fields },
+            entity
+          ),
+        },
+      ],
+    };
+  }
+
+  // Confirms a mutation, echoing Zoho's response
+  private confirm(message: string, data: any) {
+    const context = this.requestContext.getStore();
+    if (context) context.result = data;
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${message}:\n${JSON.stringify(data, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private paginationFrom(params: any): PaginationOptions {
+    return {
+      page: params.page,
+      perPage: params.per_page,
+      allPages: params.all_pages,
+      maxItems: params.max_items,
+    };
+  }
+
+  // Portal operations
+  private async listPortals() {
+    const data = await this.makeRequest("/portals");
+    return this.respond(data);
+  }
+
+  private async getPortal(portalId: string) {
+    const data = await this.makeRequest(`/portal/${portalId}`);
+    return this.respond(data);
+  }
+
+  private async setDefaultPortal(portal: string) {
+    const portalId = await this.resolvePortalId(portal);
+    this.config.portalId = portalId;
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Default portal for this session set to ${portalId}`,
+        },
+      ],
+    };
+  }
+
+  // Project operations
+  private async listProjects(pagination: PaginationOptions = {}) {
+    const data = await this.makePaginatedRequest(
+      `/portal/${this.portalId}/projects`,
+      "projects",
+      pagination
+    );
+    return this.respond(data, "project");
+  }
+
+  private async getProject(projectId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}`
+    );
+    return this.respond(data, "project");
+  }
+
+  private async createProject(params: any) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects`,
+      "POST",
+      params
+    );
+    return this.confirm(`Project created successfully`, data);
+  }
+
+  private async updateProject(params: any) {
+    const { project_id, ...updateData } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}`,
+      "PATCH",
+      updateData
+    );
+    return this.confirm(`Project updated successfully`, data);
+  }
+
+  private async deleteProject(projectId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/trash`,
+      "POST"
+    );
+    return this.confirm(`Project moved to trash successfully`, data);
+  }
+
+  // Task operations
+  private async listTasks(
+    projectId?: string,
+    pagination: PaginationOptions = {},
+    tasklistId?: string,
+    filters: TaskFilters = {}
+  ) {
+    if (tasklistId && !projectId) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "project_id is required when filtering tasks by tasklist_id"
+      );
+    }
+
+    const endpoint = tasklistId
+      ? `/portal/${this.portalId}/projects/${projectId}/tasklists/${tasklistId}/tasks`
+      : projectId
+      ? `/portal/${this.portalId}/projects/${projectId}/tasks`
+      : `/portal/${this.portalId}/tasks`;
+    const query = buildTaskFilterQuery(filters);
+    const data = await this.makePaginatedRequest(
+      query ? `${endpoint}?${query}` : endpoint,
+      "tasks",
+      pagination
+    );
+    return this.respond(data, "task");
+  }
+
+  private async getTask(projectId: string, taskId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/tasks/${taskId}`
+    );
+    return this.respond(data, "task");
+  }
+
+  private async createTask(params: any) {
+    const { project_id, tasklist_id, ...taskData } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/tasks`,
+      "POST",
+      { ...taskData, ...(tasklist_id && { tasklist: { id: tasklist_id } }) }
+    );
+    return this.confirm(`Task created successfully`, data);
+  }
+
+  private async updateTask(params: any) {
+    const { project_id, task_id, tasklist_id, ...taskData } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/tasks/${task_id}`,
+      "PATCH",
+      { ...taskData, ...(tasklist_id && { tasklist: { id: tasklist_id } }) }
+    );
+    return this.confirm(`Task updated successfully`, data);
+  }
+
+  private async deleteTask(projectId: string, taskId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/tasks/${taskId}`,
+      "DELETE"
+    );
+    return this.confirm(`Task deleted successfully`, data);
+  }
+
+  // Bulk task operations
+  private async bulkCreateTasks(params: any) {
+    const { project_id, tasks, concurrency } = params;
+    return this.runBulk("create", tasks, concurrency, async ({ tasklist_id, ...taskData }) => {
+      const data = await this.makeRequest(
+        `/portal/${this.portalId}/projects/${project_id}/tasks`,
+        "POST",
+        { ...taskData, ...(tasklist_id && { tasklist: { id: tasklist_id } }) }
+      );
+      return { name: taskData.name, task_id: records(data)[0]?.id };
+    });
+  }
+
+  private async bulkUpdateTasks(params: any) {
+    const { project_id, tasks, concurrency } = params;
+    return this.runBulk("update", tasks, concurrency, async (task) => {
+      const { task_id, tasklist_id, ...taskData } = task;
+      await this.makeRequest(
+        `/portal/${this.portalId}/projects/${project_id}/tasks/${task_id}`,
+        "PATCH",
+        { ...taskData, ...(tasklist_id && { tasklist: { id: tasklist_id } }) }
+      );
+      return { task_id };
+    });
+  }
+
+  private async bulkDeleteTasks(params: any) {
+    const { project_id, task_ids, concurrency } = params;
+    return this.runBulk("delete", task_ids, concurrency, async (task_id: string) => {
+      await this.makeRequest(
+        `/portal/${this.portalId}/projects/${project_id}/tasks/${task_id}`,
+        "DELETE"
+      );
+      return { task_id };
+    });
+  }
+
+  // One request per item; failures are reported per item instead of aborting the batch,
+  // so only the failed indexes need to be sent again
+  private async runBulk(
+    action: string,
+    items: any[],
+    concurrency: number = 5,
+    run: (item: any) => Promise<Record<string, unknown>>
+  ) {
+    if (items.length === 0 || items.length > BULK_MAX_ITEMS) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Bulk ${action} takes between 1 and ${BULK_MAX_ITEMS} tasks, got ${items.length}`
+      );
+    }
+    const limit = Math.min(Math.max(1, Math.floor(concurrency)), BULK_MAX_CONCURRENCY);
+
+    const results = await mapWithConcurrency(items, limit, async (item, index) => {
+      try {
+        return { index, status: "succeeded", ...(await run(item)) };
+      } catch (error: any) {
+        return {
+          index,
+          status: "failed",
+          task_id: typeof item === "string" ? item : item.task_id,
+          name: item?.name,
+          error: error?.message || String(error),
+          ...(error instanceof ZohoApiError && { kind: error.kind, http_status: error.status }),
+        };
+      }
+    });
+
+    const failed = results.filter((result) => result.status === "failed");
+    return this.confirm(
+      `Bulk task ${action} finished: ${results.length - failed.length} succeeded, ${failed.length} failed`,
+      {
+        succeeded: results.length - failed.length,
+        failed: failed.length,
+        failed_indexes: failed.map((result) => result.index),
+        results,
+      }
+    );
+  }
+
+  // Task comment operations
+  private async listTaskComments(projectId: string, taskId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/tasks/${taskId}/comments`
+    );
+    return this.respond(data, "comment");
+  }
+
+  private async addTaskComment(params: any) {
+    const { project_id, task_id, comment } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/tasks/${task_id}/comments`,
+      "POST",
+      { comment }
+    );
+    return this.confirm(`Comment added successfully`, data);
+  }
+
+  private async updateTaskComment(params: any) {
+    const { project_id, task_id, comment_id, comment } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/tasks/${task_id}/comments/${comment_id}`,
+      "PATCH",
+      { comment }
+    );
+    return this.confirm(`Comment updated successfully`, data);
+  }
+
+  private async deleteTaskComment(
+    projectId: string,
+    taskId: string,
+    commentId: string
+  ) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/tasks/${taskId}/comments/${commentId}`,
+      "DELETE"
+    );
+    return this.confirm(`Comment deleted successfully`, data);
+  }
+
+  // Subtask operations
+  private async listSubtasks(projectId: string, taskId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/tasks/${taskId}/subtasks`
+    );
+    return this.respond(data, "task");
+  }
+
+  private async createSubtask(params: any) {
+    const { project_id, task_id, ...taskData } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/tasks/${task_id}/subtasks`,
+      "POST",
+      taskData
+    );
+    return this.confirm(`Subtask created successfully`, data);
+  }
+
+  // Task dependency operations
+  private async addTaskDependency(params: any) {
+    const {
+      project_id,
+      task_id,
+      dependent_task_id,
+      relation,
+      dependency_type = "FS",
+      lag,
+    } = params;
+    // Zoho models the link from the successor's side, so flip the pair for "successor"
+    const [predecessorId, successorId] =
+      relation === "predecessor"
+        ? [dependent_task_id, task_id]
+        : [task_id, dependent_task_id];
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/tasks/${successorId}/dependencies`,
+      "POST",
+      {
+        predecessor_id: predecessorId,
+        dependency_type,
+        ...(lag !== undefined && { lag }),
+      }
+    );
+    return this.confirm(`Dependency added successfully`, data);
+  }
+
+  private async removeTaskDependency(params: any) {
+    const { project_id, task_id, dependent_task_id, relation } = params;
+    const [predecessorId, successorId] =
+      relation === "predecessor"
+        ? [dependent_task_id, task_id]
+        : [task_id, dependent_task_id];
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/tasks/${successorId}/dependencies/${predecessorId}`,
+      "DELETE"
+    );
+    return this.confirm(`Dependency removed successfully`, data);
+  }
+
+  // Task list operations
+  private async listTasklists(
+    projectId: string,
+    pagination: PaginationOptions = {}
+  ) {
+    const data = await this.makePaginatedRequest(
+      `/portal/${this.portalId}/projects/${projectId}/tasklists`,
+      "tasklists",
+      pagination
+    );
+    return this.respond(data, "tasklist");
+  }
+
+  private async createTasklist(params: any) {
+    const { project_id, milestone_id, ...tasklistData } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/tasklists`,
+      "POST",
+      { ...tasklistData, ...(milestone_id && { milestone: { id: milestone_id } }) }
+    );
+    return this.confirm(`Task list created successfully`, data);
+  }
+
+  private async updateTasklist(params: any) {
+    const { project_id, tasklist_id, milestone_id, ...tasklistData } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/tasklists/${tasklist_id}`,
+      "PATCH",
+      { ...tasklistData, ...(milestone_id && { milestone: { id: milestone_id } }) }
+    );
+    return this.confirm(`Task list updated successfully`, data);
+  }
+
+  private async deleteTasklist(projectId: string, tasklistId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/tasklists/${tasklistId}`,
+      "DELETE"
+    );
+    return this.confirm(`Task list deleted successfully`, data);
+  }
+
+  // Issue operations
+  private async listIssues(
+    projectId?: string,
+    pagination: PaginationOptions = {}
+  ) {
+    const endpoint = projectId
+      ? `/portal/${this.portalId}/projects/${projectId}/issues`
+      : `/portal/${this.portalId}/issues`;
+    const data = await this.makePaginatedRequest(endpoint, "issues", pagination);
+    return this.respond(data, "issue");
+  }
+
+  private async getIssue(projectId: string, issueId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/issues/${issueId}`
+    );
+    return this.respond(data, "issue");
+  }
+
+  // Maps the flat triage fields of the tool schema onto Zoho's nested references
+  private issueBody(params: any) {
+    const {
+      assignee_zpuid,
+      reporter_zpuid,
+      classification_id,
+      module_id,
+      affected_milestone_id,
+      ...issueData
+    } = params;
+    return {
+      ...issueData,
+      ...(assignee_zpuid && { assignee: { zpuid: assignee_zpuid } }),
+      ...(reporter_zpuid && { reporter: { zpuid: reporter_zpuid } }),
+      ...(classification_id && { classification: { id: classification_id } }),
+      ...(module_id && { module: { id: module_id } }),
+      ...(affected_milestone_id && {
+        affected_milestone: { id: affected_milestone_id },
+      }),
+    };
+  }
+
+  private async createIssue(params: any) {
+    const { project_id, ...issueData } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/issues`,
+      "POST",
+      this.issueBody(issueData)
+    );
+    return this.confirm(`Issue created successfully`, data);
+  }
+
+  private async updateIssue(params: any) {
+    const { project_id, issue_id, ...issueData } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/issues/${issue_id}`,
+      "PATCH",
+      this.issueBody(issueData)
+    );
+    return this.confirm(`Issue updated successfully`, data);
+  }
+
+  private async deleteIssue(projectId: string, issueId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/issues/${issueId}`,
+      "DELETE"
+    );
+    return this.confirm(`Issue deleted successfully`, data);
+  }
+
+  private async fetchIssueStatuses(projectId: string): Promise<any[]> {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/issues/statuses`
+    );
+    return extractList(data);
+  }
+
+  private async listIssueStatuses(projectId: string) {
+    const statuses = await this.fetchIssueStatuses(projectId);
+    return this.respond(statuses);
+  }
+
+  private async changeIssueStatus(params: any) {
+    const { project_id, issue_id, status } = params;
+    // Statuses are configurable per portal, so resolve the requested one by name or ID
+    const statuses = await this.fetchIssueStatuses(project_id);
+    const wanted = String(status).trim().toLowerCase();
+    const match = statuses.find(
+      (candidate) =>
+        String(candidate.id) === wanted ||
+        String(candidate.name || "").toLowerCase() === wanted
+    );
+
+    if (!match) {
+      const available = statuses.map((candidate) => candidate.name).join(", ");
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown issue status "${status}". Available statuses: ${available || "none"}`
+      );
+    }
+
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/issues/${issue_id}`,
+      "PATCH",
+      { status: { id: match.id } }
+    );
+    return this.confirm(`Issue status changed to ${match.name}`, data);
+  }
+
+  // Issue comment operations
+  private async listIssueComments(projectId: string, issueId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/issues/${issueId}/comments`
+    );
+    return this.respond(data, "comment");
+  }
+
+  private async addIssueComment(params: any) {
+    const { project_id, issue_id, comment } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/issues/${issue_id}/comments`,
+      "POST",
+      { comment }
+    );
+    return this.confirm(`Comment added successfully`, data);
+  }
+
+  private async updateIssueComment(params: any) {
+    const { project_id, issue_id, comment_id, comment } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/issues/${issue_id}/comments/${comment_id}`,
+      "PATCH",
+      { comment }
+    );
+    return this.confirm(`Comment updated successfully`, data);
+  }
+
+  private async deleteIssueComment(
+    projectId: string,
+    issueId: string,
+    commentId: string
+  ) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/issues/${issueId}/comments/${commentId}`,
+      "DELETE"
+    );
+    return this.confirm(`Comment deleted successfully`, data);
+  }
+
+  // Phase operations
+  private async listPhases(
+    projectId: string,
+    pagination: PaginationOptions = {}
+  ) {
+    const data = await this.makePaginatedRequest(
+      `/portal/${this.portalId}/projects/${projectId}/phases`,
+      "phases",
+      pagination
+    );
+    return this.respond(data, "phase");
+  }
+
+  private async createPhase(params: any) {
+    const { project_id, ...phaseData } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/phases`,
+      "POST",
+      phaseData
+    );
+    return this.confirm(`Phase created successfully`, data);
+  }
+
+  private async getPhase(projectId: string, phaseId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/phases/${phaseId}`
+    );
+    return this.respond(data, "phase");
+  }
+
+  private async updatePhase(params: any) {
+    const { project_id, phase_id, ...phaseData } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/phases/${phase_id}`,
+      "PATCH",
+      phaseData
+    );
+    return this.confirm(`Phase updated successfully`, data);
+  }
+
+  private async deletePhase(projectId: string, phaseId: string) {
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${projectId}/phases/${phaseId}`,
+      "DELETE"
+    );
+    return this.confirm(`Phase deleted successfully`, data);
+  }
+
+  private async completePhase(params: any) {
+    const { project_id, phase_id, completed = true } = params;
+    const data = await this.makeRequest(
+      `/portal/${this.portalId}/projects/${project_id}/phases/${phase_id}`,
+      "PATCH",
+      { status: completed ? "completed" : "notcompleted" }
+    );
+    return this.confirm(`Phase marked ${completed ? "completed" : "not completed"}`, data);
+  }
+
+  private async getPhaseWork(params: any) {
+    const { project_id, phase_id, include_closed_tasks = false } = params;
+    const projectPath = `/portal/${this.portalId}/projects/${project_id}`;
+
+    // Zoho filters by phase server-side, so only the phase's own work is paged through
+    const taskQuery = buildTaskFilterQuery({ milestone_id: phase_id });
+    const [phase, taskData, issueData] = await Promise.all([
+      this.makeRequest(`${projectPath}/phases/${phase_id}`),
+      this.makePaginatedRequest(`${projectPath}/tasks?${taskQuery}`, "tasks", { allPages: true }),
+      this.makePaginatedRequest(
+        `${projectPath}/issues?${issuePhaseFilterQuery(phase_id)}`,
+        "issues",
+        { allPages: true }
+      ),
+    ]);
+
+    // Re-check locally: tasks reach a phase directly or through their task list, issues
+    // through the affected or release milestone. Records whose payload leaves these fields
+    // out are trusted to Zoho's filter; only a different milestone ID excludes one
+    const inPhase = (...ids: unknown[]) => {
+      const present = ids.filter((id) => id !== undefined && id !== null && id !== "");
+      return present.length === 0 || present.some((id) => String(id) === String(phase_id));
+    };
+    const tasks = extractList(taskData).filter((task) =>
+      inPhase(task.milestone?.id, task.milestone_id, task.tasklist?.milestone?.id)
+    );
+    const issues = extractList(issueData).filter((issue) =>
+      inPhase(issue.affected_milestone?.id, issue.release_milestone?.id, issue.milestone?.id)
+    );
+
+    const openTasks = tasks.filter((task) => !isClosed(task));
+    const openIssues = issues.filter((issue) => !isClosed(issue));
+    const result = {
+      phase,
+      summary: {
+        total_tasks: tasks.length,
+        open_tasks: openTasks.length,
+        closed_tasks: tasks.length - openTasks.length,
+        open_issues: openIssues.length,
+      },
+      tasks: include_closed_tasks ? tasks : openTasks,
+      open_issues: openIssues,
+    };
+    return this.respond(result, "phase");
+  }
+
+  // Time log operations
+  private timelogEndpoint(projectId?: string, taskId?: string, issueId?: string) {
+    if ((taskId || issueId) && !projectId) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "project_id is required when targeting a task or issue time log"
+      );
+    }
+    if (taskId) {
+      return `/portal/${this.portalId}/projects/${projectId}/tasks/${taskId}/timelogs`;
+    }
+    if (issueId) {
+      return `/portal/${this.portalId}/projects/${projectId}/issues/${issueId}/timelogs`;
+    }
+    return projectId
+      ? `/portal/${this.portalId}/projects/${projectId}/timelogs`
+      : `/portal/${this.portalId}/timelogs`;
+  }
+
+  private async listTimelogs(params: any) {
+    const { project_id, task_id, issue_id, start_date, end_date, user_zpuid, bill_status } =
+      params;
+    const query = new URLSearchParams();
+    if (start_date || end_date) {
+      query.set("view_type", "custom_date");
+      if (start_date) query.set("start_date", start_date);
+      if (end_date) query.set("end_date", end_date);
+    }
+    if (user_zpuid) query.set("users_list", user_zpuid);
+    if (bill_status && bill_status !== "all") query.set("bill_status", bill_status);
+
+    const base = this.timelogEndpoint(project_id, task_id, issue_id);
+    const queryString = query.toString();
+    const endpoint = queryString ? `${base}?${queryString}` : base;
+    const pagination = this.paginationFrom(params);
+    const data = await this.makePaginatedRequest(endpoint, "time_logs", pagination);
+
+    // Totals are used for billing, so they cover every matching log, not just the page returned
+    const firstPage = (pagination.page || 1) === 1;
+    const hasAll = pagination.allPages
+      ? firstPage && !data?.pagination?.truncated
+      : firstPage &&
+        (data?.page_info?.has_next_page !== undefined
+          ? !data.page_info.has_next_page
+          : extractList(data).length < (pagination.perPage || 10));
+    const allLogs = hasAll
+      ? data
+      : await this.makePaginatedRequest(endpoint, "time_logs", { allPages: true });
+    const totals = {
+      ...summarizeTimelogs(allLogs),
+      // False only when even a full walk stopped at MAX_PAGES
+      complete: !allLogs?.pagination?.truncated,
+    };
+    return this.respond({ ...data, totals }, "timelog");
+  }
+
+  private async createTimelog(params: any) {
+    const { project_id, task_id, issue_id, billable = true, ...logData } = params;
+    const data = await this.makeRequest(
+      this.timelogEndpoint(project_id, task_id, issue_id),
+      "POST",
+      { ...logData, bill_status: billable ? "billable" : "non_billable" }
+    );
+    return this.confirm(`Time log created successfully`, data);
+  }
+
+  private async updateTimelog(params: any) {
+    const { project_id, task_id, issue_id, timelog_id, billable, ...logData } = params;
+    const data = await this.makeRequest(
+      `${this.timelogEndpoint(project_id, task_id, issue_id)}/${timelog_id}`,
+      "PATCH",
+      {
+        ...logData,
+        ...(billable !== undefined && {
+          bill_status: billable ? "billable" : "non_billable",
+        }),
+      }
+    );
+    return this.confirm(`Time log updated successfully`, data);
+  }
+
+  private async deleteTimelog(params: any) {
+    const { project_id, task_id, issue_id, timelog_id } = params;
+    const data = await this.makeRequest(
+      `${this.timelogEndpoint(project_id, task_id, issue_id)}/${timelog_id}`,
+      "DELETE"
+    );
+    return this.confirm(`Time log deleted successfully`, data);
+  }
+
+  // Search
+  private async search(params: any) {
+    const { search_term, project_id, module = "all", page = 1, per_page = 10 } = params;
+    const endpoint = project_id
+      ? `/portal/${this.portalId}/projects/${project_id}/search?search_term=${encodeURIComponent(search_term)}&module=${module}&page=${page}&per_page=${per_page}`
+      : `/portal/${this.portalId}/search?search_term=${encodeURIComponent(search_term)}&module=${module}&status=active&page=${page}&per_page=${per_page}`;
+    const data = await this.makeRequest(endpoint);
+    return this.respond(data);
+  }
+
+  // Reports
+  private async generateProjectReport(params: any) {
+    const { project_id, report_format = "markdown" } = params;
+    const to = params.to_date || new Date().toISOString().slice(0, 10);
+    const from =
+      params.from_date ||
+      new Date(Date.parse(to) - 7 * 24 * 3600 * 1000).toISOString().slice(0, 10);
+    if (from > to) {
+      throw new McpError(ErrorCode.InvalidParams, "from_date must not be later than to_date");
+    }
+
+    const projectPath = `/portal/${this.portalId}/projects/${project_id}`;
+    const [project, taskData, issueData, phaseData] = await Promise.all([
+      this.makeRequest(projectPath),
+      this.makePaginatedRequest(`${projectPath}/tasks`, "tasks", { allPages: true }),
+      this.makePaginatedRequest(`${projectPath}/issues`, "issues", { allPages: true }),
+      this.makePaginatedRequest(`${projectPath}/phases`, "phases", { allPages: true }),
+    ]);
+
+    const report = renderProjectReport(
+      {
+        project,
+        tasks: extractList(taskData),
+        issues: extractList(issueData),
+        phases: extractList(phaseData),
+        from,
+        to,
+        truncated: Object.entries({ tasks: taskData, issues: issueData, phases: phaseData })
+          .filter(([, data]) => data?.pagination?.truncated)
+          .map(([source]) => source),
+      },
+      report_format
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: report,
+        },
+      ],
+    };
+  }
+
+  // Users
+  private async listUsers(
+    projectId?: string,
+    pagination: PaginationOptions = {}
+  ) {
+    const endpoint = projectId
+      ? `/portal/${this.portalId}/projects/${projectId}/users`
+      : `/portal/${this.portalId}/users`;
+    // Users were historically fetched unpaged; only page when asked to
+    const paged = pagination.page || pagination.perPage || pagination.allPages;
+    const data = paged
+      ? await this.makePaginatedRequest(endpoint, "users", pagination)
+      : await this.makeRequest(endpoint);
+    return this.respond(data, "user");
+  }
+
+  // Readiness check: a cheap authenticated call proving the shared credentials still work
+  async checkConnection(): Promise<{ portals: number }> {
+    if (!this.config.accessToken && !this.config.refreshToken) {
+      throw new McpError(ErrorCode.InvalidRequest, "No Zoho credentials configured");
+    }
+    const data = await this.makeRequest("/portals");
+    return { portals: (Array.isArray(data) ? data : extractList(data)).length };
+  }
+
+  getServer(): Server {
+    return this.server;
+  }
+}
@@ -0,0 +1,129 @@
+import { createHash } from "node:crypto";
+import { readFile, rename, writeFile } from "node:fs/promises";
+
+export interface CachedToken {
+  accessToken: string;
+  expiresAt: number; // Unix timestamp in milliseconds
+}
+
+// Storage backend for access tokens; implement this to share tokens through e.g. Redis
+export interface TokenStore {
+  get(key: string): Promise<CachedToken | undefined>;
+  set(key: string, token: CachedToken): Promise<void>;
+}
+
+export class MemoryTokenStore implements TokenStore {
+  private tokens = new Map<string, CachedToken>();
+
+  async get(key: string) {
+    return this.tokens.get(key);
+  }
+
+  async set(key: string, token: CachedToken) {
+    this.tokens.set(key, token);
+  }
+}
+
+// Keeps tokens in a JSON file so they survive restarts
+export class FileTokenStore implements TokenStore {
+  private tokens?: Record<string, CachedToken>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private async load(): Promise<Record<string, CachedToken>> {
+    if (!this.tokens) {
+      try {
+        this.tokens = JSON.parse(await readFile(this.filePath, "utf8"));
+      } catch (error: any) {
+        if (error?.code !== "ENOENT") {
+          console.error(`Ignoring unreadable token store ${this.filePath}: ${error}`);
+        }
+        this.tokens = {};
+      }
+    }
+    return this.tokens!;
+  }
+
+  async get(key: string) {
+    return (await this.load())[key];
+  }
+
+  async set(key: string, token: CachedToken) {
+    const tokens = await this.load();
+    tokens[key] = token;
+
+    // Serialize writes and swap the file in atomically so readers never see a partial file
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await writeFile(tempPath, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+        await rename(tempPath, this.filePath);
+      });
+    await this.writing;
+  }
+}
+
+export class TokenManager {
+  private inFlight = new Map<string, Promise<CachedToken>>();
+
+  constructor(private store: TokenStore) {}
+
+  // Swap in a custom backend (e.g. a shared cache) before the first request is made
+  setStore(store: TokenStore) {
+    this.store = store;
+  }
+
+  // Tokens are keyed by a hash of the credentials, so the store never holds refresh tokens
+  static keyFor(clientId: string, refreshToken: string): string {
+    return createHash("sha256").update(`${clientId}:${refreshToken}`).digest("hex");
+  }
+
+  async get(key: string): Promise<CachedToken | undefined> {
+    const token = await this.store.get(key);
+    return token && token.expiresAt > Date.now() ? token : undefined;
+  }
+
+  // Concurrent callers share one refresh; a token another caller already replaced
+  // the stale one with is reused instead of hitting the accounts endpoint again
+  async refresh(
+    key: string,
+    staleAccessToken: string,
+    refresher: () => Promise<CachedToken>
+  ): Promise<CachedToken> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const refresh = (async () => {
+      try {
+        const cached = await this.get(key);
+        if (cached && cached.accessToken !== staleAccessToken) {
+          return cached;
+        }
+
+        const token = await refresher();
+        await this.store.set(key, token).catch((error) => {
+          console.error(`Failed to persist refreshed token: ${error}`);
+        });
+        return token;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+    this.inFlight.set(key, refresh);
+    return refresh;
+  }
+}
+
+function createTokenStore(): TokenStore {
+  if (process.env.ZOHO_TOKEN_STORE === "memory") {
+    return new MemoryTokenStore();
+  }
+  return new FileTokenStore(process.env.ZOHO_TOKEN_STORE_PATH || ".zoho-tokens.json");
+}
+
+// Shared by every ZohoProjectsServer instance in the process
+export const tokenManager = new TokenManager(createTokenStore());
@@ -0,0 +1,54 @@
+// Which tools a server or session may use. Lists accept `*` wildcards, e.g. "delete_*"
+export interface ToolPolicy {
+  source: "server" | "session";
+  readOnly?: boolean;
+  allow?: string[];
+  deny?: string[];
+}
+
+export function parseToolList(value: string | undefined): string[] | undefined {
+  const names = (value || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return names.length > 0 ? names : undefined;
+}
+
+export function policyFromEnv(): ToolPolicy {
+  return {
+    source: "server",
+    readOnly: process.env.ZOHO_READ_ONLY === "true",
+    allow: parseToolList(process.env.ZOHO_ALLOWED_TOOLS),
+    deny: parseToolList(process.env.ZOHO_DENIED_TOOLS),
+  };
+}
+
+function matchesAny(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    new RegExp(
+      `^${pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`
+    ).test(name)
+  );
+}
+
+// Why a tool is unavailable, or undefined if every policy permits it. Policies only ever
+// narrow each other, so a session cannot re-enable what the server blocks
+export function toolBlockReason(
+  name: string,
+  mutating: boolean,
+  policies: ToolPolicy[]
+): string | undefined {
+  for (const policy of policies) {
+    const owner = policy.source === "server" ? "the server" : "this session";
+    if (policy.readOnly && mutating) {
+      return `${owner} is read-only`;
+    }
+    if (policy.deny && matchesAny(name, policy.deny)) {
+      return `it is on ${owner}'s denied tools list`;
+    }
+    if (policy.allow && !matchesAny(name, policy.allow)) {
+      return `it is not on ${owner}'s allowed tools list`;
+    }
+  }
+  return undefined;
+}